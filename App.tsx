@@ -2,5 +2,5 @@ import React from "react";
 import PluribusParticlesCanvas from "./PluribusParticlesCanvas";
 
 export default function App() {
-  return <PluribusParticlesCanvas />;
+  return <PluribusParticlesCanvas syncUrl />;
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import { clampParam, ParamSpec } from "./engine/configSchema";
+
+export type ParamValue = number | boolean | string;
+
+type ParamControlProps = {
+  spec: ParamSpec<string>;
+  value: ParamValue;
+  defaultValue: ParamValue;
+  onChange: (value: ParamValue) => void;
+};
+
+// Enough decimals to show the step, e.g. 0.005 -> 3
+function decimals(step = 1) {
+  const text = String(step);
+  return text.includes(".") ? text.length - text.indexOf(".") - 1 : 0;
+}
+
+/**
+ * One generated panel control. Numbers get a slider plus a text box; typed
+ * values only apply once they are in range, otherwise the box turns red and
+ * snaps back on blur.
+ */
+export default function ParamControl({ spec, value, defaultValue, onChange }: ParamControlProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const changed = value !== defaultValue;
+
+  const label = (
+    <span className="flex items-center gap-1">
+      {spec.label}
+      {spec.needsRebuild && (
+        <span className="text-fg/40" title="Resamples the particles">
+          ↻
+        </span>
+      )}
+      {changed && (
+        <button
+          onClick={(e) => {
+            e.preventDefault();
+            setDraft(null);
+            onChange(defaultValue);
+          }}
+          className="text-fg/40 hover:text-fg"
+          title={`Reset to ${defaultValue}`}
+          aria-label={`Reset ${spec.label}`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+
+  if (spec.type === "boolean") {
+    return (
+      <label className="flex items-center justify-between cursor-pointer">
+        {label}
+        <input
+          type="checkbox"
+          checked={value as boolean}
+          onChange={(e) => onChange(e.target.checked)}
+          className="accent-fg"
+        />
+      </label>
+    );
+  }
+
+  if (spec.type === "color") {
+    return (
+      <label className="flex items-center justify-between cursor-pointer">
+        {label}
+        <input
+          type="color"
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-8 h-5 bg-transparent cursor-pointer"
+        />
+      </label>
+    );
+  }
+
+  if (spec.type === "choice") {
+    const choices = spec.choices ?? [];
+    // Short lists fit as buttons, longer ones get a dropdown
+    const asButtons = choices.length <= 4 && choices.every((c) => c.label.length <= 8);
+    return (
+      <div>
+        <div className="flex justify-between mb-1">{label}</div>
+        {asButtons ? (
+          <div className="flex gap-1" role="group" aria-label={spec.label}>
+            {choices.map((choice) => (
+              <button
+                key={choice.value}
+                onClick={() => onChange(choice.value)}
+                aria-pressed={value === choice.value}
+                className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors ${value === choice.value ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+              >
+                {choice.label}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <select
+            value={value as string}
+            onChange={(e) => onChange(e.target.value)}
+            aria-label={spec.label}
+            className="w-full bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40"
+          >
+            {choices.map((choice) => (
+              <option key={choice.value} value={choice.value} className="bg-panel">
+                {choice.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  }
+
+  const parsed = draft === null ? (value as number) : draft.trim() === "" ? NaN : Number(draft);
+  const valid = clampParam(spec, parsed) === parsed;
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        {label}
+        <span className="flex items-center gap-1 text-fg/50">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft ?? (value as number).toFixed(decimals(spec.step))}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              const next = Number(e.target.value);
+              if (e.target.value.trim() !== "" && clampParam(spec, next) === next) onChange(next);
+            }}
+            onBlur={() => setDraft(null)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+            }}
+            aria-label={`${spec.label} value`}
+            aria-invalid={!valid}
+            className={`w-14 bg-transparent text-right border-b focus:outline-none ${valid ? "border-transparent focus:border-fg/40" : "border-red-400 text-red-300"}`}
+            title={`${spec.min} – ${spec.max}`}
+          />
+          {spec.unit}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={spec.min}
+        max={spec.max}
+        step={spec.step}
+        value={value as number}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        aria-label={spec.label}
+        className="w-full accent-fg h-1 bg-fg/20 rounded-lg appearance-none cursor-pointer"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { applyAudioMappings, bandEnergies, BeatDetector, createBeatDetector } from "./audio";
+import { DEFAULT_CONFIG } from "./config";
+
+const FRAME_MS = 16;
+// Enough frames to fill the detector's history
+const WARMUP = 60;
+
+// Feed `frames` frames of steady energy, returning the beats and the time of the last frame
+function steady(detector: BeatDetector, energy: number, frames: number, start = 0) {
+  let beats = 0;
+  let now = start;
+  for (let i = 0; i < frames; i++) {
+    now += FRAME_MS;
+    if (detector.push(energy, now)) beats++;
+  }
+  return { beats, now };
+}
+
+describe("createBeatDetector", () => {
+  it("finds a spike over a steady level", () => {
+    const detector = createBeatDetector(() => 0.5);
+    const { beats, now } = steady(detector, 0.2, WARMUP);
+    expect(beats).toBe(0);
+    expect(detector.push(0.5, now + FRAME_MS)).toBe(true);
+  });
+
+  it("waits for a full history before calling beats", () => {
+    const detector = createBeatDetector(() => 0.5);
+    const { now } = steady(detector, 0.2, 10);
+    expect(detector.push(0.9, now + FRAME_MS)).toBe(false);
+  });
+
+  it("ignores spikes in near silence", () => {
+    const detector = createBeatDetector(() => 1);
+    const { now } = steady(detector, 0.02, WARMUP);
+    expect(detector.push(0.1, now + FRAME_MS)).toBe(false);
+  });
+
+  it("leaves a gap between beats", () => {
+    const detector = createBeatDetector(() => 0.5);
+    let { now } = steady(detector, 0.2, WARMUP);
+    expect(detector.push(0.6, (now += FRAME_MS))).toBe(true);
+    expect(detector.push(0.6, (now += 100))).toBe(false);
+    expect(detector.push(0.6, (now += 200))).toBe(true);
+  });
+
+  it("needs less of a jump at higher sensitivity", () => {
+    let sensitivity = 0;
+    const detector = createBeatDetector(() => sensitivity);
+    let { now } = steady(detector, 0.3, WARMUP);
+    // 1.4x the average: under the 1.6x bar at 0, over the 1.1x bar at 1
+    expect(detector.push(0.42, (now += 500))).toBe(false);
+    sensitivity = 1;
+    expect(detector.push(0.42, (now += 500))).toBe(true);
+  });
+
+  it("starts over after a reset", () => {
+    const detector = createBeatDetector(() => 0.5);
+    const { now } = steady(detector, 0.2, WARMUP);
+    detector.reset();
+    expect(detector.push(0.9, now + FRAME_MS)).toBe(false);
+  });
+});
+
+describe("bandEnergies", () => {
+  it("averages bins into 0..1 bands", () => {
+    // 10 Hz bins up to 20 kHz, loud below 250 Hz only
+    const bins = Array.from({ length: 2000 }, (_, i) => (i * 10 < 250 ? 255 : 0));
+    const energies = bandEnergies(bins, 10);
+    expect(energies.bass).toBeCloseTo(1);
+    expect(energies.mid).toBe(0);
+    expect(energies.treble).toBe(0);
+    expect(energies.level).toBeGreaterThan(0);
+    expect(energies.level).toBeLessThan(0.1);
+  });
+});
+
+describe("applyAudioMappings", () => {
+  const energies = { bass: 1, mid: 0.5, treble: 0, level: 0.5 };
+
+  it("pushes targets by a share of their range and clamps them", () => {
+    const config = { ...DEFAULT_CONFIG, radialKick: 1 };
+    // radialKick runs 0..4
+    expect(applyAudioMappings(config, [{ band: "mid", target: "radialKick", amount: 0.5 }], energies).radialKick).toBe(2);
+    expect(applyAudioMappings(config, [{ band: "bass", target: "radialKick", amount: 1 }], energies).radialKick).toBe(4);
+    expect(applyAudioMappings(config, [{ band: "bass", target: "radialKick", amount: -1 }], energies).radialKick).toBe(0);
+  });
+
+  it("returns the same config without mappings", () => {
+    expect(applyAudioMappings(DEFAULT_CONFIG, [], energies)).toBe(DEFAULT_CONFIG);
+  });
+});
@@ -0,0 +1,126 @@
+import { Config } from "./config";
+import { clampParam, paramSpec } from "./configSchema";
+import { clamp } from "./math";
+
+export type AudioBand = "bass" | "mid" | "treble" | "level";
+
+// Energy per band, each 0..1
+export type BandEnergies = Record<AudioBand, number>;
+
+export const AUDIO_BANDS: { band: AudioBand; label: string; minHz: number; maxHz: number }[] = [
+  { band: "bass", label: "Bass", minHz: 20, maxHz: 250 },
+  { band: "mid", label: "Mid", minHz: 250, maxHz: 2000 },
+  { band: "treble", label: "Treble", minHz: 2000, maxHz: 16000 },
+  { band: "level", label: "Level", minHz: 20, maxHz: 16000 },
+];
+
+// Settings audio may drive. All of them apply on the next step, so none of
+// them resample the field.
+export const AUDIO_TARGETS: (keyof Config)[] = [
+  "radialKick",
+  "waveThickness",
+  "noiseKick",
+  "waveSpeed",
+  "returnStrength",
+  "repulsionStrength",
+];
+
+// `band` pushes `target` away from its panel value by up to `amount` of the
+// setting's full range; negative amounts pull it down instead.
+export type AudioMapping = {
+  band: AudioBand;
+  target: keyof Config;
+  amount: number; // -1..1
+};
+
+// Beats are picked from bass energy against its recent average
+const HISTORY_SIZE = 43; // ~0.7s at 60 fps
+const MIN_BEAT_GAP_MS = 180;
+const MIN_BEAT_ENERGY = 0.15;
+
+/**
+ * Average `bins` (0..255 magnitudes from an AnalyserNode) into bands.
+ * `binHz` is the width of one bin, i.e. sampleRate / fftSize.
+ */
+export function bandEnergies(bins: ArrayLike<number>, binHz: number): BandEnergies {
+  const out = { bass: 0, mid: 0, treble: 0, level: 0 };
+  for (const { band, minHz, maxHz } of AUDIO_BANDS) {
+    const from = Math.max(0, Math.floor(minHz / binHz));
+    const to = Math.min(bins.length, Math.ceil(maxHz / binHz));
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += bins[i];
+    out[band] = to > from ? sum / ((to - from) * 255) : 0;
+  }
+  return out;
+}
+
+export type BeatDetector = {
+  // Feed one frame of bass energy; true when it's a beat
+  push: (energy: number, now: number) => boolean;
+  reset: () => void;
+};
+
+/**
+ * Energy onset detection: a beat is a frame noticeably louder than the
+ * running average. `sensitivity` (0..1) lowers the bar from 1.6x to 1.1x.
+ */
+export function createBeatDetector(sensitivity: () => number): BeatDetector {
+  const history = new Float32Array(HISTORY_SIZE);
+  let filled = 0;
+  let next = 0;
+  let lastBeat = -Infinity;
+
+  return {
+    push: (energy, now) => {
+      let mean = 0;
+      for (let i = 0; i < filled; i++) mean += history[i];
+      mean = filled > 0 ? mean / filled : 0;
+
+      history[next] = energy;
+      next = (next + 1) % HISTORY_SIZE;
+      filled = Math.min(HISTORY_SIZE, filled + 1);
+
+      const threshold = 1.6 - 0.5 * clamp(sensitivity(), 0, 1);
+      const beat =
+        filled === HISTORY_SIZE &&
+        energy > MIN_BEAT_ENERGY &&
+        energy > mean * threshold &&
+        now - lastBeat >= MIN_BEAT_GAP_MS;
+      if (beat) lastBeat = now;
+      return beat;
+    },
+    reset: () => {
+      filled = 0;
+      next = 0;
+      lastBeat = -Infinity;
+    },
+  };
+}
+
+// Config with every mapping applied on top of the panel values.
+export function applyAudioMappings(config: Config, mappings: AudioMapping[], energies: BandEnergies): Config {
+  if (mappings.length === 0) return config;
+  const out = { ...config } as Record<string, unknown>;
+  for (const { band, target, amount } of mappings) {
+    const spec = paramSpec(target);
+    const base = out[target];
+    if (!spec || typeof base !== "number") continue;
+    const range = (spec.max ?? 1) - (spec.min ?? 0);
+    out[target] = clampParam(spec, base + amount * energies[band] * range) ?? base;
+  }
+  return out as Config;
+}
+
+export type AudioSettings = {
+  beatWaves: boolean; // emit a wave on every detected beat
+  sensitivity: number; // 0..1, see createBeatDetector
+  beatStrength: number; // force of beat waves relative to radialKick
+  mappings: AudioMapping[];
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  beatWaves: true,
+  sensitivity: 0.5,
+  beatStrength: 1.5,
+  mappings: [{ band: "bass", target: "waveThickness", amount: 0.3 }],
+};
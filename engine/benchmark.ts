@@ -0,0 +1,58 @@
+import { Config, DEFAULT_CONFIG } from "./config";
+import { createSimulation } from "./simulation";
+import { FIXED_STEP_MS } from "./timestep";
+
+export type BenchmarkResult = {
+  particles: number;
+  steps: number;
+  totalMs: number;
+  msPerStep: number;
+};
+
+const now = () => (typeof performance !== "undefined" ? performance.now() : Date.now());
+
+// Steps timed back to back; the thread is free for frames and input between
+// chunks, and that time isn't counted
+const CHUNK_STEPS = 10;
+
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Times `step` on a synthetic field of roughly `particleCount` particles. The
+ * mask is solid "text", which is the densest (most collision heavy) case.
+ * Runs in chunks so the calling thread stays responsive; `onProgress`
+ * reports the steps timed so far.
+ */
+export async function runBenchmark(
+  particleCount: number,
+  steps = 120,
+  config: Partial<Config> = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<BenchmarkResult> {
+  const merged: Config = { ...DEFAULT_CONFIG, ...config, paused: false };
+  const spacing = Math.max(1, Math.round(merged.gridSpacing));
+  const side = Math.max(spacing, Math.ceil(Math.sqrt(particleCount / merged.textKeepProb) * spacing));
+  const data = new Uint8ClampedArray(side * side * 4).fill(255);
+  const sim = createSimulation({ width: side, height: side, data, letterCount: 1 }, merged);
+
+  // Warm up so the JIT has settled before we start measuring
+  for (let i = 0; i < 10; i++) sim.step(FIXED_STEP_MS);
+
+  let totalMs = 0;
+  for (let done = 0; done < steps; ) {
+    await nextTask();
+    const chunk = Math.min(CHUNK_STEPS, steps - done);
+    const start = now();
+    for (let i = 0; i < chunk; i++) sim.step(FIXED_STEP_MS);
+    totalMs += now() - start;
+    done += chunk;
+    onProgress?.(done, steps);
+  }
+
+  return {
+    particles: sim.particles.count,
+    steps,
+    totalMs,
+    msPerStep: totalMs / steps,
+  };
+}
@@ -0,0 +1,135 @@
+import { DEFAULT_FORCES, ForceSettings } from "./forces";
+import { DEFAULT_LOOKS, ParticleLooks } from "./looks";
+import { Easing } from "./math";
+
+export type Config = {
+  waveSpeed: number;
+  waveInterval: number;
+  waveThickness: number;
+  waveOrigin: "firstLetter" | "center" | "letters" | "random" | "fixed"; // where the emitter spawns waves
+  waveOriginX: number; // fixed origin, 0..1 across the canvas
+  waveOriginY: number;
+  clickWaves: boolean; // clicks and taps spawn a wave at the pointer
+  clickWaveStrength: number; // multiple of radialKick for clicked waves
+  radialKick: number; // "Wave Force" in UI
+  noiseKick: number;  // "Wave Chaos" in UI
+  mainWaveFadeRadius: number; // waves ramp up to full force over this radius
+  returnStrength: number;
+  bounceProb: number;
+  collisions: boolean; // particles push each other apart; the most expensive part of a step
+  collisionDamping: number; // share of velocity exchanged when particles collide
+  forces: ForceSettings[]; // applied in order every step, see engine/forces
+  ambientCount: number; // dust particles scattered over the field
+  dustOpacity: number;
+  dustFlow: number; // pull of the noise current dust drifts on, 0 is off
+  dustFlowScale: number; // px size of its swirls
+  dustFlocking: number; // 0..1, how strongly dust moves in boids-style flocks
+  dustFlockRadius: number; // px a dust particle looks for flockmates within
+  dustWaves: number; // multiple of the wave force that sweeps dust along
+  dustHome: number; // spring back to where each dust particle spawned, 0 is off
+  dustEdges: "wrap" | "respawn"; // what dust leaving the field does
+  gridSpacing: number; // px between mask samples
+  textKeepProb: number; // share of text samples that become particles
+  backgroundKeepProb: number; // same for the background grid
+  repulsionStrength: number;
+  repulsionRadius: number;
+  pointerMode: "repel" | "attract" | "swirl" | "fling"; // what each pointer does to nearby particles
+  pressureScaling: boolean; // scale pointer strength by pen/touch pressure
+  background: string; // canvas color, any #rgb/#rrggbb
+  colorMode: "solid" | "gradient" | "palette"; // how text particles are filled
+  textColor: string;
+  gradientColor: string; // far end of the gradient, textColor is the near end
+  gradientAngle: number; // degrees, 0 runs left to right
+  palette: string[]; // each text particle picks one of these
+  gridColor: string; // background grid particles
+  dustColor: string;
+  colorReact: "none" | "wave" | "velocity" | "activation"; // what blends particles toward reactColor
+  reactColor: string;
+  looks: ParticleLooks; // shape, size, glow and trail per particle class
+  glyph: string; // character drawn by the "glyph" shape
+  trailFade: number; // 0..1, how much of the previous frame stays visible
+  paused: boolean;
+  skipIntro: boolean;
+  introStyle: "zoom" | "scatter" | "fall" | "stagger" | "sweep"; // how the text enters
+  introDuration: number; // ms
+  introEasing: Easing; // also used by the outro
+  introAngle: number; // degrees the sweep travels, 0 runs left to right
+  outro: boolean; // play the intro backwards before the text changes
+  outroDuration: number; // ms
+  reducedMotion: boolean; // no intro and no waves; the field just settles into place
+  seed: number; // drives mask sampling and all simulation randomness
+  maxPixelRatio: number; // cap on devicePixelRatio used for the canvas backing store
+  adaptiveQuality: boolean; // trade density, collisions and dust for frame rate
+  frameBudget: number; // ms per frame adaptive quality aims to stay under
+  renderer: "canvas2d" | "webgl"; // falls back to canvas2d without WebGL2
+  useWorker: boolean; // simulate and render on an OffscreenCanvas in a worker
+  morph: boolean; // move existing particles to a new text instead of restarting
+  morphDuration: number; // ms
+  morphStrategy: "spatial" | "angular" | "random"; // how old particles pick new targets
+};
+
+export const DEFAULT_CONFIG: Config = {
+  waveSpeed: 0.12,
+  waveInterval: 1250,
+  waveThickness: 32,
+  waveOrigin: "firstLetter",
+  waveOriginX: 0.5,
+  waveOriginY: 0.5,
+  clickWaves: true,
+  clickWaveStrength: 1.5,
+  radialKick: 0.2,
+  noiseKick: 0.05,
+  mainWaveFadeRadius: 140,
+  returnStrength: 0.040,
+  bounceProb: 0.008,
+  collisions: true,
+  collisionDamping: 0.85,
+  forces: DEFAULT_FORCES,
+  ambientCount: 10,
+  dustOpacity: 0.15,
+  dustFlow: 0,
+  dustFlowScale: 160,
+  dustFlocking: 0,
+  dustFlockRadius: 40,
+  dustWaves: 0,
+  dustHome: 0,
+  dustEdges: "wrap",
+  gridSpacing: 3,
+  textKeepProb: 0.85,
+  backgroundKeepProb: 0.22,
+  repulsionStrength: 20.0,
+  repulsionRadius: 4,
+  pointerMode: "repel",
+  pressureScaling: true,
+  background: "#000000",
+  colorMode: "solid",
+  textColor: "#ffffff",
+  gradientColor: "#7dd3fc",
+  gradientAngle: 0,
+  palette: ["#ffffff", "#fde68a", "#fca5a5", "#93c5fd"],
+  gridColor: "#ffffff",
+  dustColor: "#ffffff",
+  colorReact: "none",
+  reactColor: "#f97316",
+  looks: DEFAULT_LOOKS,
+  glyph: "✦",
+  trailFade: 0,
+  paused: false,
+  skipIntro: true,
+  introStyle: "zoom",
+  introDuration: 4800,
+  introEasing: "easeOut",
+  introAngle: 0,
+  outro: false,
+  outroDuration: 1200,
+  reducedMotion: false,
+  seed: 1,
+  maxPixelRatio: 2,
+  adaptiveQuality: false,
+  frameBudget: 20,
+  renderer: "canvas2d",
+  useWorker: false,
+  morph: false,
+  morphDuration: 1600,
+  morphStrategy: "spatial",
+};
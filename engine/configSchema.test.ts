@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG } from "./config";
+import { sanitizeConfig } from "./configSchema";
+
+describe("sanitizeConfig", () => {
+  it("fills in defaults for missing fields", () => {
+    const { config, errors } = sanitizeConfig({ waveSpeed: 0.3 });
+    expect(config).toEqual({ ...DEFAULT_CONFIG, waveSpeed: 0.3 });
+    expect(errors).toEqual([]);
+  });
+
+  it("clamps numbers and drops values of the wrong type", () => {
+    const { config, errors } = sanitizeConfig({ waveSpeed: 5, collisions: "yes", pointerMode: "explode" });
+    expect(config.waveSpeed).toBe(0.6);
+    expect(config.collisions).toBe(DEFAULT_CONFIG.collisions);
+    expect(config.pointerMode).toBe(DEFAULT_CONFIG.pointerMode);
+    expect(errors).toHaveLength(3);
+  });
+
+  it("rejects a config that isn't an object", () => {
+    expect(sanitizeConfig([1, 2]).config).toEqual(DEFAULT_CONFIG);
+    expect(sanitizeConfig(null).errors).toEqual(["Config must be an object"]);
+  });
+
+  it("reports inherited keys as unknown instead of copying them", () => {
+    // JSON.parse keeps "__proto__" as a plain own key, like an imported file would
+    const input = JSON.parse('{"__proto__": {"polluted": true}, "constructor": {"name": "x"}, "toString": 1}');
+    const { config, errors } = sanitizeConfig(input);
+    expect(Object.getPrototypeOf(config)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(config.constructor).toBe(Object);
+    expect(errors).toEqual([
+      'Unknown setting "__proto__"',
+      'Unknown setting "constructor"',
+      'Unknown setting "toString"',
+    ]);
+  });
+});
@@ -0,0 +1,282 @@
+import { Config, DEFAULT_CONFIG } from "./config";
+import { defaultForce, FORCE_PARAMS, FORCE_TARGETS, FORCE_TYPES, ForceSettings } from "./forces";
+import { DEFAULT_LOOKS, LOOK_CLASSES, LOOK_PARAMS, ParticleLooks } from "./looks";
+
+export type ParamChoice = { value: string; label: string };
+
+/**
+ * Describes one tunable value for the control panel and for validating
+ * configs that come from outside. `needsRebuild` marks values that only take
+ * effect once the mask is sampled again.
+ */
+export type ParamSpec<K extends string = keyof Config> = {
+  key: K;
+  label: string;
+  group: string;
+  type: "number" | "boolean" | "choice" | "color";
+  min?: number;
+  max?: number;
+  step?: number;
+  unit?: string;
+  choices?: readonly ParamChoice[];
+  needsRebuild?: boolean;
+  // Only shown while this holds, e.g. the fixed origin in "fixed" mode
+  visible?: (config: Config) => boolean;
+};
+
+const choices = (...values: [string, string][]) => values.map(([value, label]) => ({ value, label }));
+
+export const CONFIG_SCHEMA: ParamSpec[] = [
+  // Wave Dynamics
+  { key: "waveSpeed", label: "Wave Speed", group: "Wave Dynamics", type: "number", min: 0.01, max: 0.6, step: 0.01 },
+  { key: "waveInterval", label: "Wave Interval", group: "Wave Dynamics", type: "number", min: 200, max: 3000, step: 50, unit: "ms" },
+  { key: "radialKick", label: "Wave Force", group: "Wave Dynamics", type: "number", min: 0, max: 4, step: 0.1 },
+  { key: "waveThickness", label: "Wave Width", group: "Wave Dynamics", type: "number", min: 10, max: 200, step: 1 },
+  { key: "noiseKick", label: "Wave Chaos", group: "Wave Dynamics", type: "number", min: 0, max: 1, step: 0.05 },
+  { key: "mainWaveFadeRadius", label: "Wave Fade-In", group: "Wave Dynamics", type: "number", min: 10, max: 600, step: 10, unit: "px" },
+  {
+    key: "waveOrigin",
+    label: "Wave Origin",
+    group: "Wave Dynamics",
+    type: "choice",
+    choices: choices(
+      ["firstLetter", "First Letter"],
+      ["center", "Center"],
+      ["letters", "Each Letter in Turn"],
+      ["random", "Random"],
+      ["fixed", "Fixed Point"]
+    ),
+  },
+  { key: "waveOriginX", label: "Origin X", group: "Wave Dynamics", type: "number", min: 0, max: 1, step: 0.01, visible: (c) => c.waveOrigin === "fixed" },
+  { key: "waveOriginY", label: "Origin Y", group: "Wave Dynamics", type: "number", min: 0, max: 1, step: 0.01, visible: (c) => c.waveOrigin === "fixed" },
+  { key: "clickWaves", label: "Click Spawns Waves", group: "Wave Dynamics", type: "boolean" },
+  { key: "clickWaveStrength", label: "Click Wave Force", group: "Wave Dynamics", type: "number", min: 0.1, max: 5, step: 0.1, unit: "x", visible: (c) => c.clickWaves },
+
+  // Particle Physics
+  { key: "returnStrength", label: "Return Strength", group: "Particle Physics", type: "number", min: 0.001, max: 0.1, step: 0.001 },
+  { key: "bounceProb", label: "Bounce Chance", group: "Particle Physics", type: "number", min: 0, max: 0.1, step: 0.001 },
+  { key: "collisions", label: "Collisions", group: "Particle Physics", type: "boolean" },
+  { key: "collisionDamping", label: "Collision Damping", group: "Particle Physics", type: "number", min: 0, max: 1, step: 0.05, visible: (c) => c.collisions },
+
+  // Dust
+  { key: "ambientCount", label: "Amount", group: "Dust", type: "number", min: 0, max: 2000, step: 10, needsRebuild: true },
+  { key: "dustOpacity", label: "Opacity", group: "Dust", type: "number", min: 0, max: 1, step: 0.01 },
+  { key: "dustFlow", label: "Flow", group: "Dust", type: "number", min: 0, max: 0.2, step: 0.005 },
+  { key: "dustFlowScale", label: "Flow Scale", group: "Dust", type: "number", min: 20, max: 600, step: 10, unit: "px", visible: (c) => c.dustFlow > 0 },
+  { key: "dustFlocking", label: "Flocking", group: "Dust", type: "number", min: 0, max: 1, step: 0.05 },
+  { key: "dustFlockRadius", label: "Flock Radius", group: "Dust", type: "number", min: 10, max: 150, step: 5, unit: "px", visible: (c) => c.dustFlocking > 0 },
+  { key: "dustWaves", label: "Wave Drift", group: "Dust", type: "number", min: 0, max: 3, step: 0.1, unit: "x" },
+  { key: "dustHome", label: "Home Pull", group: "Dust", type: "number", min: 0, max: 0.01, step: 0.0005 },
+  { key: "dustEdges", label: "At Edges", group: "Dust", type: "choice", choices: choices(["wrap", "Wrap Around"], ["respawn", "Respawn"]) },
+
+  // Pointer
+  { key: "pointerMode", label: "Pointer Mode", group: "Pointer", type: "choice", choices: choices(["repel", "Repel"], ["attract", "Attract"], ["swirl", "Swirl"], ["fling", "Fling"]) },
+  { key: "repulsionStrength", label: "Pointer Force", group: "Pointer", type: "number", min: 0, max: 50, step: 0.5 },
+  { key: "repulsionRadius", label: "Pointer Radius", group: "Pointer", type: "number", min: 1, max: 150, step: 1, unit: "px" },
+  { key: "pressureScaling", label: "Pressure Sensitive", group: "Pointer", type: "boolean" },
+
+  // Sampling
+  { key: "gridSpacing", label: "Grid Spacing", group: "Sampling", type: "number", min: 2, max: 12, step: 1, unit: "px", needsRebuild: true },
+  { key: "textKeepProb", label: "Text Density", group: "Sampling", type: "number", min: 0.05, max: 1, step: 0.05, needsRebuild: true },
+  { key: "backgroundKeepProb", label: "Background Density", group: "Sampling", type: "number", min: 0, max: 1, step: 0.01, needsRebuild: true },
+
+  // Colors
+  { key: "background", label: "Canvas", group: "Colors", type: "color" },
+  { key: "colorMode", label: "Text Fill", group: "Colors", type: "choice", choices: choices(["solid", "Solid"], ["gradient", "Gradient"], ["palette", "Palette"]) },
+  { key: "textColor", label: "Text", group: "Colors", type: "color", visible: (c) => c.colorMode !== "palette" },
+  { key: "gradientColor", label: "Gradient To", group: "Colors", type: "color", visible: (c) => c.colorMode === "gradient" },
+  { key: "gradientAngle", label: "Gradient Angle", group: "Colors", type: "number", min: 0, max: 360, step: 5, unit: "°", visible: (c) => c.colorMode === "gradient" },
+  { key: "gridColor", label: "Grid", group: "Colors", type: "color" },
+  { key: "dustColor", label: "Dust", group: "Colors", type: "color" },
+  {
+    key: "colorReact",
+    label: "React To",
+    group: "Colors",
+    type: "choice",
+    choices: choices(["none", "Nothing"], ["wave", "Wave Bands"], ["velocity", "Velocity"], ["activation", "Reveal"]),
+  },
+  { key: "reactColor", label: "React Color", group: "Colors", type: "color", visible: (c) => c.colorReact !== "none" },
+
+  // Intro & Transitions
+  { key: "skipIntro", label: "Skip Intro", group: "Intro & Transitions", type: "boolean" },
+  {
+    key: "introStyle",
+    label: "Intro Style",
+    group: "Intro & Transitions",
+    type: "choice",
+    choices: choices(
+      ["zoom", "Zoom Reveal"],
+      ["scatter", "Scatter & Assemble"],
+      ["fall", "Fall In"],
+      ["stagger", "Letter by Letter"],
+      ["sweep", "Sweep Reveal"]
+    ),
+  },
+  { key: "introDuration", label: "Intro Duration", group: "Intro & Transitions", type: "number", min: 300, max: 10000, step: 100, unit: "ms" },
+  { key: "introEasing", label: "Easing", group: "Intro & Transitions", type: "choice", choices: choices(["linear", "Linear"], ["easeIn", "In"], ["easeOut", "Out"], ["easeInOut", "In Out"]) },
+  { key: "introAngle", label: "Sweep Angle", group: "Intro & Transitions", type: "number", min: 0, max: 360, step: 15, unit: "°", visible: (c) => c.introStyle === "sweep" },
+  { key: "outro", label: "Outro on Text Change", group: "Intro & Transitions", type: "boolean" },
+  { key: "outroDuration", label: "Outro Duration", group: "Intro & Transitions", type: "number", min: 200, max: 5000, step: 100, unit: "ms", visible: (c) => c.outro },
+  { key: "reducedMotion", label: "Reduced Motion", group: "Intro & Transitions", type: "boolean" },
+  { key: "morph", label: "Morph Between Texts", group: "Intro & Transitions", type: "boolean" },
+  { key: "morphDuration", label: "Morph Duration", group: "Intro & Transitions", type: "number", min: 200, max: 5000, step: 100, unit: "ms", visible: (c) => c.morph },
+  { key: "morphStrategy", label: "Assignment", group: "Intro & Transitions", type: "choice", choices: choices(["spatial", "Spatial"], ["angular", "Angular"], ["random", "Random"]), visible: (c) => c.morph },
+
+  // Particle Looks
+  { key: "trailFade", label: "Motion Blur", group: "Particle Looks", type: "number", min: 0, max: 0.95, step: 0.05 },
+
+  // Rendering
+  { key: "renderer", label: "Renderer", group: "Rendering", type: "choice", choices: choices(["canvas2d", "Canvas"], ["webgl", "WebGL"]) },
+  { key: "useWorker", label: "Render in Worker", group: "Rendering", type: "boolean" },
+  { key: "maxPixelRatio", label: "Max Pixel Ratio", group: "Rendering", type: "number", min: 1, max: 4, step: 0.5 },
+  { key: "adaptiveQuality", label: "Adaptive Quality", group: "Rendering", type: "boolean" },
+  { key: "frameBudget", label: "Frame Budget", group: "Rendering", type: "number", min: 8, max: 50, step: 1, unit: "ms", visible: (c) => c.adaptiveQuality },
+];
+
+export const CONFIG_GROUPS = [...new Set(CONFIG_SCHEMA.map((spec) => spec.group))];
+
+export function paramSpec(key: keyof Config) {
+  return CONFIG_SCHEMA.find((spec) => spec.key === key);
+}
+
+// Whether going from `prev` to `next` needs the mask sampled again.
+export function needsResample(prev: Config, next: Config) {
+  return CONFIG_SCHEMA.some((spec) => spec.needsRebuild && prev[spec.key] !== next[spec.key]);
+}
+
+// Clamp a number into the spec's range; NaN and infinities are rejected.
+export function clampParam(spec: ParamSpec<string>, value: number) {
+  if (!Number.isFinite(value)) return null;
+  const min = spec.min ?? -Infinity;
+  const max = spec.max ?? Infinity;
+  return Math.min(max, Math.max(min, value));
+}
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Build a complete Config from untrusted input. Missing fields take their
+ * defaults; unknown fields and values of the wrong type are dropped and
+ * reported, and numbers outside a field's range are clamped into it.
+ */
+export function sanitizeConfig(input: unknown) {
+  const config: Config = { ...DEFAULT_CONFIG };
+  const errors: string[] = [];
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    errors.push("Config must be an object");
+    return { config, errors };
+  }
+
+  const target = config as Record<string, unknown>;
+  for (const [key, value] of Object.entries(input)) {
+    // Own keys only, so "__proto__" or "constructor" can't reach the prototype
+    if (!Object.hasOwn(DEFAULT_CONFIG, key)) {
+      errors.push(`Unknown setting "${key}"`);
+      continue;
+    }
+    const fallback = DEFAULT_CONFIG[key as keyof Config];
+    const spec = paramSpec(key as keyof Config);
+
+    if (key === "forces") {
+      const forces = sanitizeForces(value, errors);
+      if (forces) target[key] = forces;
+    } else if (key === "looks") {
+      const looks = sanitizeLooks(value, errors);
+      if (looks) target[key] = looks;
+    } else if (Array.isArray(fallback)) {
+      // The palette is the only list
+      if (Array.isArray(value) && value.every((v) => typeof v === "string" && COLOR_PATTERN.test(v))) target[key] = value;
+      else errors.push(`"${key}" must be a list of #rgb or #rrggbb colors`);
+    } else if (key === "glyph") {
+      // Only the first character is ever drawn
+      const glyph = typeof value === "string" ? Array.from(value)[0] : undefined;
+      if (!glyph) errors.push(`"glyph" must be a character`);
+      else target[key] = glyph;
+      if (glyph && glyph !== value) errors.push(`"glyph" shortened to "${glyph}"`);
+    } else if (key === "seed") {
+      // Seeds are unsigned 32-bit integers
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        errors.push(`"seed" must be a number`);
+      } else {
+        target[key] = value >>> 0;
+        if (value >>> 0 !== value) errors.push(`"seed" changed to ${value >>> 0}`);
+      }
+    } else if (typeof value !== typeof fallback || (typeof value === "number" && !Number.isFinite(value))) {
+      errors.push(`"${key}" must be a ${typeof fallback}`);
+    } else if (spec?.choices && !spec.choices.some((c) => c.value === value)) {
+      errors.push(`"${key}" must be one of ${spec.choices.map((c) => c.value).join(", ")}`);
+    } else if (spec?.type === "color" && !COLOR_PATTERN.test(value as string)) {
+      errors.push(`"${key}" must be a #rgb or #rrggbb color`);
+    } else if (spec && typeof value === "number") {
+      const clamped = clampParam(spec, value)!;
+      if (clamped !== value) errors.push(`"${key}" clamped to ${clamped}`);
+      target[key] = clamped;
+    } else {
+      target[key] = value;
+    }
+  }
+  return { config, errors };
+}
+
+// Keep the usable entries of a forces list, filling in and clamping fields.
+function sanitizeForces(value: unknown, errors: string[]) {
+  if (!Array.isArray(value)) {
+    errors.push(`"forces" must be a list`);
+    return null;
+  }
+  const forces: ForceSettings[] = [];
+  for (const item of value) {
+    const type = item?.type;
+    if (!FORCE_TYPES.some((t) => t.type === type)) {
+      errors.push(`Skipped unknown force "${type}"`);
+      continue;
+    }
+    const force = defaultForce(type);
+    if (typeof item.enabled === "boolean") force.enabled = item.enabled;
+    if (FORCE_TARGETS.some((t) => t.target === item.target)) force.target = item.target;
+    else if (item.target !== undefined) errors.push(`Force "${type}" can't target "${item.target}"`);
+    sanitizeFields(force, item, FORCE_PARAMS[force.type], `Force "${type}"`, errors);
+    forces.push(force);
+  }
+  return forces;
+}
+
+// Same for the per-class particle looks; missing classes keep their defaults.
+function sanitizeLooks(value: unknown, errors: string[]) {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`"looks" must be an object`);
+    return null;
+  }
+  const input = value as Record<string, unknown>;
+  const looks = { ...DEFAULT_LOOKS } as ParticleLooks;
+  for (const { look, label } of LOOK_CLASSES) {
+    const item = input[look];
+    if (item === undefined) continue;
+    looks[look] = { ...DEFAULT_LOOKS[look] };
+    if (typeof item === "object" && item !== null) sanitizeFields(looks[look], item, LOOK_PARAMS, `${label} look`, errors);
+    else errors.push(`${label} look must be an object`);
+  }
+  return looks;
+}
+
+// Copy the fields `specs` describe from `input` onto `target`, validating
+// choices and clamping numbers. Missing fields keep the target's values.
+function sanitizeFields(target: object, input: object, specs: ParamSpec<string>[], label: string, errors: string[]) {
+  const out = target as Record<string, unknown>;
+  for (const spec of specs) {
+    const value = (input as Record<string, unknown>)[spec.key];
+    if (value === undefined) continue;
+    if (spec.choices) {
+      if (spec.choices.some((c) => c.value === value)) out[spec.key] = value;
+      else errors.push(`${label} ${spec.key} must be one of ${spec.choices.map((c) => c.value).join(", ")}`);
+      continue;
+    }
+    const clamped = typeof value === "number" ? clampParam(spec, value) : null;
+    if (clamped === null) {
+      errors.push(`${label} ${spec.key} must be a number`);
+      continue;
+    }
+    if (clamped !== value) errors.push(`${label} ${spec.key} clamped to ${clamped}`);
+    out[spec.key] = clamped;
+  }
+}
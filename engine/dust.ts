@@ -0,0 +1,206 @@
+import { Config } from "./config";
+import { createForce, defaultForce, Force, ForceContext } from "./forces";
+import { KIND_DUST, ParticleStore } from "./particles";
+import { Random } from "./random";
+import { Wave } from "./types";
+
+// Boids tuning: speed flocking dust cruises at, and the share of the gap to
+// it, to the neighbours' heading and to their center closed per step
+const FLOCK_SPEED = 0.6;
+const FLOCK_CRUISE = 0.15;
+const FLOCK_ALIGN = 0.15;
+const FLOCK_COHESION = 0.002;
+const FLOCK_SEPARATION = 0.3;
+// Respawned dust fades back in over this many ms
+const RESPAWN_FADE_MS = 600;
+
+// Config the behavior is built from; it's rebuilt when any of these change
+export const DUST_KEYS: (keyof Config)[] = [
+  "dustFlow",
+  "dustFlowScale",
+  "dustFlocking",
+  "dustFlockRadius",
+  "dustWaves",
+  "dustHome",
+  "dustEdges",
+  "seed",
+];
+
+/**
+ * Ambient dust behavior. `begin` runs once per step; `steer` adds this step's
+ * acceleration to dust particle `i` and `confine` keeps it on the field once
+ * it has moved.
+ */
+export type DustBehavior = {
+  begin: (ctx: ForceContext) => void;
+  steer: (i: number, ctx: ForceContext) => void;
+  confine: (i: number, ctx: ForceContext) => void;
+};
+
+// Move a particle that left the field in through the opposite edge, taking
+// its previous position along so nothing streaks across the screen.
+export function wrapToField(store: ParticleStore, i: number, width: number, height: number) {
+  const hw = width / 2;
+  const hh = height / 2;
+  const wrapX = store.x[i] < -hw ? width : store.x[i] > hw ? -width : 0;
+  const wrapY = store.y[i] < -hh ? height : store.y[i] > hh ? -height : 0;
+  store.x[i] += wrapX;
+  store.prevX[i] += wrapX;
+  store.y[i] += wrapY;
+  store.prevY[i] += wrapY;
+}
+
+/**
+ * Build the dust behavior for the current config. Reads `waves` live, so the
+ * simulation can keep updating the same array. Respawns draw from `rng`, the
+ * simulation's own stream, so a rebuild carries on where it left off.
+ */
+export function createDustBehavior(config: Config, waves: readonly Wave[], rng: Random): DustBehavior {
+  const flow: Force | null =
+    config.dustFlow > 0
+      ? createForce({ ...defaultForce("flow"), strength: config.dustFlow, scale: config.dustFlowScale }, config.seed)
+      : null;
+  const flocking = config.dustFlocking;
+  const flockRadius = Math.max(1, config.dustFlockRadius);
+
+  // Dust-only grid for flocking, with cells one flock radius wide
+  let cols = 0;
+  let rows = 0;
+  let cellStart = new Int32Array(1);
+  let cursor = new Int32Array(0);
+  let entries = new Int32Array(0);
+  let cellOf = new Int32Array(0);
+  const cellAt = (x: number, y: number, ctx: ForceContext) => {
+    const c = Math.min(cols - 1, Math.max(0, Math.floor((x + ctx.width / 2) / flockRadius)));
+    const r = Math.min(rows - 1, Math.max(0, Math.floor((y + ctx.height / 2) / flockRadius)));
+    return r * cols + c;
+  };
+
+  function buildGrid(ctx: ForceContext) {
+    const { particles } = ctx;
+    cols = Math.max(1, Math.ceil(ctx.width / flockRadius));
+    rows = Math.max(1, Math.ceil(ctx.height / flockRadius));
+    if (cellStart.length < cols * rows + 1) {
+      cellStart = new Int32Array(cols * rows + 1);
+      cursor = new Int32Array(cols * rows);
+    }
+    if (cellOf.length < particles.count) {
+      cellOf = new Int32Array(particles.capacity);
+      entries = new Int32Array(particles.capacity);
+    }
+    cellStart.fill(0);
+    for (let i = 0; i < particles.count; i++) {
+      if (particles.kind[i] !== KIND_DUST) continue;
+      cellOf[i] = cellAt(particles.x[i], particles.y[i], ctx);
+      cellStart[cellOf[i] + 1]++;
+    }
+    for (let c = 0; c < cols * rows; c++) {
+      cellStart[c + 1] += cellStart[c];
+      cursor[c] = cellStart[c];
+    }
+    for (let i = 0; i < particles.count; i++) {
+      if (particles.kind[i] === KIND_DUST) entries[cursor[cellOf[i]]++] = i;
+    }
+  }
+
+  function flock(i: number, { particles }: ForceContext) {
+    const { x, y, vx, vy } = particles;
+    let count = 0;
+    let sumVX = 0;
+    let sumVY = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let sepX = 0;
+    let sepY = 0;
+    const col = cellOf[i] % cols;
+    const row = Math.floor(cellOf[i] / cols);
+    for (let r = Math.max(0, row - 1); r <= Math.min(rows - 1, row + 1); r++) {
+      for (let c = Math.max(0, col - 1); c <= Math.min(cols - 1, col + 1); c++) {
+        const cell = r * cols + c;
+        for (let k = cellStart[cell]; k < cellStart[cell + 1]; k++) {
+          const j = entries[k];
+          if (j === i) continue;
+          const dx = x[j] - x[i];
+          const dy = y[j] - y[i];
+          const distSq = dx * dx + dy * dy;
+          if (distSq >= flockRadius * flockRadius || distSq < 0.0001) continue;
+          count++;
+          sumVX += vx[j];
+          sumVY += vy[j];
+          sumX += dx;
+          sumY += dy;
+          // Push apart harder the closer they get
+          sepX -= dx / distSq;
+          sepY -= dy / distSq;
+        }
+      }
+    }
+
+    // Keep moving at cruising speed, along the current heading
+    const speed = Math.hypot(vx[i], vy[i]);
+    const dirX = speed > 0.001 ? vx[i] / speed : Math.cos(particles.phase[i]);
+    const dirY = speed > 0.001 ? vy[i] / speed : Math.sin(particles.phase[i]);
+    let ax = dirX * (FLOCK_SPEED - speed) * FLOCK_CRUISE;
+    let ay = dirY * (FLOCK_SPEED - speed) * FLOCK_CRUISE;
+    if (count > 0) {
+      ax += (sumVX / count - vx[i]) * FLOCK_ALIGN + (sumX / count) * FLOCK_COHESION + sepX * FLOCK_SEPARATION;
+      ay += (sumVY / count - vy[i]) * FLOCK_ALIGN + (sumY / count) * FLOCK_COHESION + sepY * FLOCK_SEPARATION;
+    }
+    vx[i] += ax * flocking;
+    vy[i] += ay * flocking;
+  }
+
+  // Wave bands sweep dust outward from where it is now; it has no rest spot
+  // for the band to be measured from
+  function drift(i: number, { particles }: ForceContext) {
+    const { x, y, vx, vy, wave } = particles;
+    for (const w of waves) {
+      const dx = x[i] - w.x;
+      const dy = y[i] - w.y;
+      const d = Math.hypot(dx, dy);
+      const bandDist = Math.abs(d - w.radius);
+      if (bandDist >= w.thickness || d < 0.001) continue;
+      const t = 1 - bandDist / w.thickness;
+      const band = t * t * (3 - 2 * t);
+      wave[i] = Math.max(wave[i], band);
+      const kick = (w.strength * config.dustWaves * band) / (d * particles.mass[i]);
+      vx[i] += dx * kick;
+      vy[i] += dy * kick;
+    }
+  }
+
+  return {
+    begin: (ctx) => {
+      flow?.begin?.(ctx);
+      if (flocking > 0) buildGrid(ctx);
+    },
+    steer: (i, ctx) => {
+      const { particles } = ctx;
+      particles.wave[i] = 0;
+      flow?.apply(i, ctx);
+      if (flocking > 0) flock(i, ctx);
+      if (config.dustWaves > 0) drift(i, ctx);
+      if (config.dustHome > 0) {
+        particles.vx[i] += (particles.baseX[i] - particles.x[i]) * config.dustHome;
+        particles.vy[i] += (particles.baseY[i] - particles.y[i]) * config.dustHome;
+      }
+      // Fade back in after a respawn
+      particles.activation[i] = Math.min(1, particles.activation[i] + ctx.delta / RESPAWN_FADE_MS);
+    },
+    confine: (i, ctx) => {
+      const { particles, width, height } = ctx;
+      if (config.dustEdges === "wrap") {
+        wrapToField(particles, i, width, height);
+        return;
+      }
+      const { x, y } = particles;
+      if (Math.abs(x[i]) <= width / 2 && Math.abs(y[i]) <= height / 2) return;
+      // Start over somewhere random, faded out and at rest
+      x[i] = particles.prevX[i] = rng.range(-width / 2, width / 2);
+      y[i] = particles.prevY[i] = rng.range(-height / 2, height / 2);
+      particles.vx[i] = 0;
+      particles.vy[i] = 0;
+      particles.activation[i] = 0;
+    },
+  };
+}
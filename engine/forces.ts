@@ -0,0 +1,275 @@
+import { ParamSpec } from "./configSchema";
+import { DISSOLVING, KIND_BACKGROUND, KIND_DUST, KIND_TEXT, ParticleStore } from "./particles";
+import { createRandom } from "./random";
+
+// Noise units the flow field scrolls per ms, and the step for its derivatives
+const FLOW_DRIFT = 0.00005;
+const CURL_EPSILON = 0.01;
+
+// "wave" and "pointer" are the simulation's own forces; the rest are
+// standalone fields that only need the particle store.
+export type ForceType = "wave" | "pointer" | "wind" | "gravity" | "vortex" | "attractor" | "flow";
+
+// Which particles a force pushes. "field" is text plus the background grid.
+export type ForceTarget = "all" | "field" | "text" | "background" | "dust";
+
+// One entry of config.forces. Every type carries every field so entries can
+// switch type without losing values; each type only reads its own.
+export type ForceSettings = {
+  type: ForceType;
+  enabled: boolean;
+  target: ForceTarget;
+  strength: number; // multiplier for wave/pointer, acceleration for the rest
+  angle: number; // degrees, 0 points right and 90 down
+  x: number; // point forces sit here, 0..1 across the field
+  y: number;
+  radius: number; // px reach of point forces
+  scale: number; // px size of flow field swirls
+};
+
+export const FORCE_TYPES: { type: ForceType; label: string }[] = [
+  { type: "wave", label: "Waves" },
+  { type: "pointer", label: "Pointer" },
+  { type: "wind", label: "Wind" },
+  { type: "gravity", label: "Gravity" },
+  { type: "vortex", label: "Vortex" },
+  { type: "attractor", label: "Attractor" },
+  { type: "flow", label: "Flow Field" },
+];
+
+export const FORCE_TARGETS: { target: ForceTarget; label: string }[] = [
+  { target: "all", label: "Everything" },
+  { target: "field", label: "Text + Grid" },
+  { target: "text", label: "Text" },
+  { target: "background", label: "Grid" },
+  { target: "dust", label: "Dust" },
+];
+
+type ForceParam = ParamSpec<keyof ForceSettings>;
+
+const param = (key: keyof ForceSettings, label: string, min: number, max: number, step: number, unit?: string): ForceParam => ({
+  key,
+  label,
+  group: "Forces",
+  type: "number",
+  min,
+  max,
+  step,
+  unit,
+});
+
+const position = [param("x", "Position X", 0, 1, 0.01), param("y", "Position Y", 0, 1, 0.01)];
+const radius = param("radius", "Radius", 10, 800, 10, "px");
+const angle = (label: string) => param("angle", label, 0, 360, 5, "°");
+
+// Tunable fields per type, in panel order
+export const FORCE_PARAMS: Record<ForceType, ForceParam[]> = {
+  wave: [param("strength", "Strength", 0, 3, 0.05, "x")],
+  pointer: [param("strength", "Strength", 0, 3, 0.05, "x")],
+  wind: [param("strength", "Strength", 0, 0.5, 0.005), angle("Direction")],
+  gravity: [param("strength", "Strength", 0, 0.5, 0.005), angle("Direction")],
+  vortex: [param("strength", "Spin", -1, 1, 0.01), ...position, radius],
+  attractor: [param("strength", "Pull", -1, 1, 0.01), ...position, radius],
+  flow: [param("strength", "Strength", 0, 0.5, 0.005), param("scale", "Scale", 20, 600, 10, "px")],
+};
+
+const FORCE_DEFAULTS: Record<ForceType, Partial<ForceSettings>> = {
+  wave: { target: "field", strength: 1 },
+  pointer: { strength: 1 },
+  wind: { strength: 0.03 },
+  gravity: { strength: 0.03, angle: 90 },
+  vortex: { strength: 0.2, radius: 250 },
+  attractor: { strength: 0.1, radius: 200 },
+  flow: { strength: 0.05 },
+};
+
+export function defaultForce(type: ForceType): ForceSettings {
+  return {
+    type,
+    enabled: true,
+    target: "all",
+    strength: 1,
+    angle: 0,
+    x: 0.5,
+    y: 0.5,
+    radius: 200,
+    scale: 120,
+    ...FORCE_DEFAULTS[type],
+  };
+}
+
+// The simulation's original set: waves push the field, pointers everything
+export const DEFAULT_FORCES: ForceSettings[] = [defaultForce("wave"), defaultForce("pointer")];
+
+// Whether two force lists hold the same settings. Configs that crossed to a
+// worker are copies, so identity alone says nothing.
+export function sameForces(a: ForceSettings[], b: ForceSettings[]) {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  return a.every((force, i) => (Object.keys(force) as (keyof ForceSettings)[]).every((key) => force[key] === b[i][key]));
+}
+
+const TARGET_MASKS: Record<ForceTarget, number> = {
+  all: (1 << KIND_TEXT) | (1 << KIND_BACKGROUND) | (1 << KIND_DUST),
+  field: (1 << KIND_TEXT) | (1 << KIND_BACKGROUND),
+  text: 1 << KIND_TEXT,
+  background: 1 << KIND_BACKGROUND,
+  dust: 1 << KIND_DUST,
+};
+
+export const targetMask = (target: ForceTarget) => TARGET_MASKS[target] ?? 0;
+
+// Bit a particle kind matches in a target mask. Dissolving particles move
+// like dust, so forces treat them as dust too.
+export const kindBit = (kind: number) => 1 << (kind & DISSOLVING ? KIND_DUST : kind);
+
+export type ForceContext = {
+  particles: ParticleStore;
+  width: number;
+  height: number;
+  time: number; // ms of field time
+  delta: number; // ms this step
+};
+
+/**
+ * A force module. `begin` runs once per step, then `apply` adds the force to
+ * the velocity of every particle in `targets` (a mask from targetMask).
+ */
+export type Force = {
+  targets: number;
+  begin?: (ctx: ForceContext) => void;
+  apply: (i: number, ctx: ForceContext) => void;
+};
+
+/**
+ * Build one of the standalone forces. Returns null for the types the
+ * simulation implements itself.
+ */
+export function createForce(settings: ForceSettings, seed: number): Force | null {
+  const targets = targetMask(settings.target);
+  const { strength } = settings;
+  const rad = (settings.angle * Math.PI) / 180;
+  const dirX = Math.cos(rad);
+  const dirY = Math.sin(rad);
+  // Point forces, in field coordinates once the size is known
+  let px = 0;
+  let py = 0;
+  const placePoint = (ctx: ForceContext) => {
+    px = (settings.x - 0.5) * ctx.width;
+    py = (settings.y - 0.5) * ctx.height;
+  };
+
+  switch (settings.type) {
+    case "wind":
+      // Lighter particles get blown further
+      return {
+        targets,
+        apply: (i, { particles }) => {
+          particles.vx[i] += (dirX * strength) / particles.mass[i];
+          particles.vy[i] += (dirY * strength) / particles.mass[i];
+        },
+      };
+    case "gravity":
+      return {
+        targets,
+        apply: (i, { particles }) => {
+          particles.vx[i] += dirX * strength;
+          particles.vy[i] += dirY * strength;
+        },
+      };
+    case "vortex":
+      return {
+        targets,
+        begin: placePoint,
+        apply: (i, { particles }) => {
+          const dx = particles.x[i] - px;
+          const dy = particles.y[i] - py;
+          const dist = Math.hypot(dx, dy);
+          if (dist >= settings.radius || dist < 0.001) return;
+          const t = 1 - dist / settings.radius;
+          const acc = (strength * t * t) / dist;
+          // Tangential, positive spins clockwise on screen
+          particles.vx[i] -= dy * acc;
+          particles.vy[i] += dx * acc;
+        },
+      };
+    case "attractor":
+      return {
+        targets,
+        begin: placePoint,
+        apply: (i, { particles }) => {
+          const dx = px - particles.x[i];
+          const dy = py - particles.y[i];
+          const dist = Math.hypot(dx, dy);
+          if (dist >= settings.radius || dist < 0.001) return;
+          const t = 1 - dist / settings.radius;
+          const acc = (strength * t) / (dist * particles.mass[i]);
+          particles.vx[i] += dx * acc;
+          particles.vy[i] += dy * acc;
+        },
+      };
+    case "flow": {
+      const noise = createNoise(seed);
+      const scale = Math.max(1, settings.scale);
+      let drift = 0;
+      return {
+        targets,
+        begin: (ctx) => {
+          drift = ctx.time * FLOW_DRIFT;
+        },
+        // Curl of a noise potential: swirls without sources or sinks, so
+        // particles circulate instead of bunching up
+        apply: (i, { particles }) => {
+          const nx = particles.x[i] / scale;
+          const ny = particles.y[i] / scale + drift;
+          const dPdx = (noise(nx + CURL_EPSILON, ny) - noise(nx - CURL_EPSILON, ny)) / (2 * CURL_EPSILON);
+          const dPdy = (noise(nx, ny + CURL_EPSILON) - noise(nx, ny - CURL_EPSILON)) / (2 * CURL_EPSILON);
+          particles.vx[i] += dPdy * strength;
+          particles.vy[i] -= dPdx * strength;
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// Seeded 2D gradient noise, roughly -1..1.
+function createNoise(seed: number) {
+  const rng = createRandom(seed);
+  const perm = new Uint8Array(512);
+  for (let i = 0; i < 256; i++) perm[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    const tmp = perm[i];
+    perm[i] = perm[j];
+    perm[j] = tmp;
+  }
+  for (let i = 0; i < 256; i++) perm[i + 256] = perm[i];
+
+  const gradX = new Float32Array(256);
+  const gradY = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const a = (i / 256) * Math.PI * 2;
+    gradX[i] = Math.cos(a);
+    gradY[i] = Math.sin(a);
+  }
+
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+  const corner = (ix: number, iy: number, dx: number, dy: number) => {
+    const g = perm[(ix & 255) + perm[iy & 255]];
+    return gradX[g] * dx + gradY[g] * dy;
+  };
+
+  return (x: number, y: number) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    const u = fade(fx);
+    const v = fade(fy);
+    const top = corner(x0, y0, fx, fy) + u * (corner(x0 + 1, y0, fx - 1, fy) - corner(x0, y0, fx, fy));
+    const bottom = corner(x0, y0 + 1, fx, fy - 1) + u * (corner(x0 + 1, y0 + 1, fx - 1, fy - 1) - corner(x0, y0 + 1, fx, fy - 1));
+    return (top + v * (bottom - top)) * Math.SQRT2;
+  };
+}
@@ -0,0 +1,59 @@
+import { ParamSpec } from "./configSchema";
+
+// Particle classes that get their own look; dissolving particles keep the
+// look of what they were.
+export type LookClass = "text" | "background" | "dust";
+
+export type ParticleShape = "circle" | "square" | "line" | "glyph" | "image";
+
+export type ParticleLook = {
+  shape: ParticleShape; // "line" is a dash along the velocity, "image" uses the loaded sprite
+  size: number; // multiple of the simulation radius
+  reactTo: "none" | "speed" | "wave"; // what drives grow and glow
+  grow: number; // extra size at full reaction, as a multiple
+  glow: number; // halo strength, scaled by the reaction unless reactTo is "none"
+  trail: number; // streak behind moving particles, in steps of travel
+};
+
+export type ParticleLooks = Record<LookClass, ParticleLook>;
+
+export const LOOK_CLASSES: { look: LookClass; label: string }[] = [
+  { look: "text", label: "Text" },
+  { look: "background", label: "Grid" },
+  { look: "dust", label: "Dust" },
+];
+
+const choices = (...values: [string, string][]) => values.map(([value, label]) => ({ value, label }));
+
+type LookParam = ParamSpec<keyof ParticleLook>;
+
+// Fields shown for each class, in panel order
+export const LOOK_PARAMS: LookParam[] = [
+  {
+    key: "shape",
+    label: "Shape",
+    group: "Particle Looks",
+    type: "choice",
+    choices: choices(["circle", "Circle"], ["square", "Square"], ["line", "Line"], ["glyph", "Glyph"], ["image", "Image"]),
+  },
+  { key: "size", label: "Size", group: "Particle Looks", type: "number", min: 0.25, max: 6, step: 0.05, unit: "x" },
+  {
+    key: "reactTo",
+    label: "React To",
+    group: "Particle Looks",
+    type: "choice",
+    choices: choices(["none", "None"], ["speed", "Speed"], ["wave", "Wave"]),
+  },
+  { key: "grow", label: "Grow", group: "Particle Looks", type: "number", min: 0, max: 4, step: 0.05, unit: "x" },
+  { key: "glow", label: "Glow", group: "Particle Looks", type: "number", min: 0, max: 1, step: 0.05 },
+  { key: "trail", label: "Trail", group: "Particle Looks", type: "number", min: 0, max: 12, step: 0.5 },
+];
+
+const PLAIN_LOOK: ParticleLook = { shape: "circle", size: 1, reactTo: "none", grow: 0, glow: 0, trail: 0 };
+
+// Plain dots everywhere, the original look
+export const DEFAULT_LOOKS: ParticleLooks = {
+  text: PLAIN_LOOK,
+  background: PLAIN_LOOK,
+  dust: PLAIN_LOOK,
+};
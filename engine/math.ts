@@ -0,0 +1,13 @@
+export const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+export const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
+export const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+// Cubic curves, t in 0..1
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: easeOutCubic,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
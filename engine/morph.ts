@@ -0,0 +1,77 @@
+import { Config } from "./config";
+import { Random } from "./random";
+import { ParticleStore } from "./particles";
+
+// How particles of the old field are paired with targets of the new one.
+// "spatial" keeps neighbours together, "angular" sweeps around the center
+// and "random" scatters everything across the field.
+export type MorphStrategy = Config["morphStrategy"];
+
+// Quantization for the spatial (Morton order) key
+const MORTON_CELL = 4;
+
+// Spread the low 16 bits of n so they occupy the even bit positions.
+function spreadBits(n: number) {
+  n &= 0xffff;
+  n = (n | (n << 8)) & 0x00ff00ff;
+  n = (n | (n << 4)) & 0x0f0f0f0f;
+  n = (n | (n << 2)) & 0x33333333;
+  n = (n | (n << 1)) & 0x55555555;
+  return n >>> 0;
+}
+
+/**
+ * Return the particle indices in the order they should be paired. Old
+ * particles are ordered by where they are now, new ones by their target, so
+ * index k of both lists makes a good pair for the chosen strategy.
+ */
+export function orderForMorph(
+  store: ParticleStore,
+  indices: number[],
+  byTarget: boolean,
+  strategy: MorphStrategy,
+  rng: Random
+) {
+  const px = (i: number) => (byTarget ? store.baseX[i] + store.jitterX[i] : store.x[i]);
+  const py = (i: number) => (byTarget ? store.baseY[i] + store.jitterY[i] : store.y[i]);
+
+  if (strategy === "random") {
+    const out = indices.slice();
+    for (let k = out.length - 1; k > 0; k--) {
+      const j = Math.floor(rng.next() * (k + 1));
+      const tmp = out[k];
+      out[k] = out[j];
+      out[j] = tmp;
+    }
+    return out;
+  }
+
+  const keys = new Float64Array(store.count);
+  for (const i of indices) {
+    if (strategy === "angular") {
+      keys[i] = Math.atan2(py(i), px(i));
+    } else {
+      // Offset so coordinates are positive before quantizing
+      const qx = Math.max(0, Math.floor(px(i) / MORTON_CELL) + 0x8000);
+      const qy = Math.max(0, Math.floor(py(i) / MORTON_CELL) + 0x8000);
+      keys[i] = spreadBits(qx) + spreadBits(qy) * 2;
+    }
+  }
+  return indices.slice().sort((a, b) => keys[a] - keys[b]);
+}
+
+// A point just outside the nearest edge of the field for particle (x, y),
+// in centered coordinates. New particles fly in from here.
+export function edgeSpawnPoint(x: number, y: number, width: number, height: number, margin: number) {
+  const hw = width / 2;
+  const hh = height / 2;
+  const left = x + hw;
+  const right = hw - x;
+  const top = y + hh;
+  const bottom = hh - y;
+  const nearest = Math.min(left, right, top, bottom);
+  if (nearest === left) return { x: -hw - margin, y };
+  if (nearest === right) return { x: hw + margin, y };
+  if (nearest === top) return { x, y: -hh - margin };
+  return { x, y: hh + margin };
+}
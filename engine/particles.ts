@@ -0,0 +1,127 @@
+// Particle kinds sharing one store so collisions can run over a single range.
+export const KIND_BACKGROUND = 0;
+export const KIND_TEXT = 1;
+export const KIND_DUST = 2;
+// Flag OR'd onto a kind when a morph has no target left for the particle.
+// It then moves like dust and fades out until the morph ends.
+export const DISSOLVING = 0x80;
+
+/**
+ * Structure-of-arrays particle storage. Arrays are swapped for larger ones
+ * when the store grows, so always read them through the store rather than
+ * holding on to an array across steps.
+ */
+export type ParticleStore = {
+  count: number;
+  capacity: number;
+  kind: Uint8Array;
+  x: Float32Array;
+  y: Float32Array;
+  prevX: Float32Array; // position before the last step, for render interpolation
+  prevY: Float32Array;
+  vx: Float32Array;
+  vy: Float32Array;
+  baseX: Float32Array;
+  baseY: Float32Array;
+  jitterX: Float32Array;
+  jitterY: Float32Array;
+  dist: Float32Array; // distance from the text's wave origin
+  phase: Float32Array;
+  friction: Float32Array;
+  mass: Float32Array;
+  radius: Float32Array;
+  activation: Float32Array;
+  brightness: Float32Array; // 0..1, from weighted masks
+  wave: Float32Array; // 0..1, how strongly a wave band hit the particle last step
+  morphX: Float32Array; // where a morphing particle's target starts from
+  morphY: Float32Array;
+  stageX: Float32Array; // off-stage point text enters from in an intro and leaves to in an outro
+  stageY: Float32Array;
+};
+
+const FLOAT_FIELDS = [
+  "x",
+  "y",
+  "prevX",
+  "prevY",
+  "vx",
+  "vy",
+  "baseX",
+  "baseY",
+  "jitterX",
+  "jitterY",
+  "dist",
+  "phase",
+  "friction",
+  "mass",
+  "radius",
+  "activation",
+  "brightness",
+  "wave",
+  "morphX",
+  "morphY",
+  "stageX",
+  "stageY",
+] as const;
+
+export function createParticleStore(capacity = 1024): ParticleStore {
+  const store = { count: 0, capacity, kind: new Uint8Array(capacity) } as ParticleStore;
+  for (const field of FLOAT_FIELDS) {
+    store[field] = new Float32Array(capacity);
+  }
+  return store;
+}
+
+function grow(store: ParticleStore, capacity: number) {
+  const kind = new Uint8Array(capacity);
+  kind.set(store.kind.subarray(0, store.count));
+  store.kind = kind;
+  for (const field of FLOAT_FIELDS) {
+    const next = new Float32Array(capacity);
+    next.set(store[field].subarray(0, store.count));
+    store[field] = next;
+  }
+  store.capacity = capacity;
+}
+
+// Append a zeroed particle of the given kind and return its index.
+export function addParticle(store: ParticleStore, kind: number) {
+  if (store.count === store.capacity) grow(store, store.capacity * 2);
+  const i = store.count++;
+  store.kind[i] = kind;
+  for (const field of FLOAT_FIELDS) {
+    store[field][i] = 0;
+  }
+  return i;
+}
+
+export function clearParticles(store: ParticleStore) {
+  store.count = 0;
+}
+
+// Copy every field of particle `from` in `source` onto slot `to` of `target`.
+export function copyParticle(source: ParticleStore, from: number, target: ParticleStore, to: number) {
+  target.kind[to] = source.kind[from];
+  for (const field of FLOAT_FIELDS) {
+    target[field][to] = source[field][from];
+  }
+}
+
+// Drop all dissolving particles, compacting the rest in place.
+export function removeDissolving(store: ParticleStore) {
+  let n = 0;
+  for (let i = 0; i < store.count; i++) {
+    if (store.kind[i] & DISSOLVING) continue;
+    if (n !== i) copyParticle(store, i, store, n);
+    n++;
+  }
+  store.count = n;
+}
+
+export function countKind(store: ParticleStore, kind: number) {
+  let n = 0;
+  for (let i = 0; i < store.count; i++) {
+    if (store.kind[i] === kind) n++;
+  }
+  return n;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { createEntry, formatOverrides, parseOverrides, Playlist, stepPlaylist } from "./playlist";
+
+function playlist(count: number, loop: boolean): Playlist {
+  return { entries: Array.from({ length: count }, (_, i) => createEntry(`ENTRY ${i}`)), loop };
+}
+
+describe("stepPlaylist", () => {
+  it("moves through the entries in either direction", () => {
+    expect(stepPlaylist(playlist(3, false), 0, 1)).toBe(1);
+    expect(stepPlaylist(playlist(3, false), 2, -1)).toBe(1);
+  });
+
+  it("wraps around when looping", () => {
+    expect(stepPlaylist(playlist(3, true), 2, 1)).toBe(0);
+    expect(stepPlaylist(playlist(3, true), 0, -1)).toBe(2);
+    expect(stepPlaylist(playlist(1, true), 0, 1)).toBe(0);
+  });
+
+  it("stops at either end without looping", () => {
+    expect(stepPlaylist(playlist(3, false), 2, 1)).toBeNull();
+    expect(stepPlaylist(playlist(3, false), 0, -1)).toBeNull();
+  });
+
+  it("has nowhere to go in an empty playlist", () => {
+    expect(stepPlaylist(playlist(0, true), 0, 1)).toBeNull();
+  });
+});
+
+describe("parseOverrides", () => {
+  it("reads numbers and booleans separated by commas or new lines", () => {
+    const { overrides, errors } = parseOverrides("waveInterval=800, radialKick: 1.5\ncollisions=false");
+    expect(overrides).toEqual({ waveInterval: 800, radialKick: 1.5, collisions: false });
+    expect(errors).toEqual([]);
+  });
+
+  it("clamps numbers into the setting's range", () => {
+    expect(parseOverrides("waveInterval=10").overrides).toEqual({ waveInterval: 200 });
+  });
+
+  it("reports what it can't use", () => {
+    const { overrides, errors } = parseOverrides("nope=1, radialKick=lots, collisions=yes, renderer=webgl, textColor=#fff, junk");
+    expect(overrides).toEqual({});
+    expect(errors).toEqual([
+      'Unknown setting "nope"',
+      '"radialKick" needs a number',
+      '"collisions" needs true or false',
+      '"renderer" can\'t be overridden',
+      '"textColor" can\'t be overridden',
+      'Expected key=value: "junk"',
+    ]);
+  });
+
+  it("treats inherited keys as unknown", () => {
+    const { overrides, errors } = parseOverrides("constructor=1, __proto__=true");
+    expect(overrides).toEqual({});
+    expect(errors).toEqual(['Unknown setting "constructor"', 'Unknown setting "__proto__"']);
+  });
+
+  it("reads back what formatOverrides writes", () => {
+    const overrides = { waveInterval: 800, clickWaves: false };
+    expect(parseOverrides(formatOverrides(overrides)).overrides).toEqual(overrides);
+  });
+});
@@ -0,0 +1,81 @@
+import { Config, DEFAULT_CONFIG } from "./config";
+import { clampParam, paramSpec } from "./configSchema";
+
+export type PlaylistEntry = {
+  text: string;
+  hold: number; // ms the entry stays up before advancing
+  overrides: Partial<Config>; // applied on top of the panel config while shown
+};
+
+export type Playlist = {
+  entries: PlaylistEntry[];
+  loop: boolean; // wrap around at the end instead of stopping
+};
+
+export const DEFAULT_HOLD = 4000;
+export const MIN_HOLD = 500;
+
+// These rebuild the renderer, which isn't something to do on every entry
+const FIXED_KEYS: (keyof Config)[] = ["renderer", "useWorker"];
+
+export function createEntry(text: string, hold = DEFAULT_HOLD): PlaylistEntry {
+  return { text, hold, overrides: {} };
+}
+
+// Index `direction` entries away from `index`, or null when a non-looping
+// playlist runs off either end.
+export function stepPlaylist(playlist: Playlist, index: number, direction: 1 | -1) {
+  const count = playlist.entries.length;
+  if (count === 0) return null;
+  const next = index + direction;
+  if (next >= 0 && next < count) return next;
+  return playlist.loop ? (next + count) % count : null;
+}
+
+/**
+ * Parse overrides written as "waveInterval=800, radialKick=1.5". Only
+ * numeric and boolean config keys are accepted; anything else is reported
+ * back instead of silently dropped.
+ */
+export function parseOverrides(input: string) {
+  const overrides: Partial<Config> = {};
+  const errors: string[] = [];
+
+  for (const part of input.split(/[,\n]/)) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+
+    const match = /^(\w+)\s*[=:]\s*(\S+)$/.exec(trimmed);
+    if (!match) {
+      errors.push(`Expected key=value: "${trimmed}"`);
+      continue;
+    }
+
+    const key = match[1] as keyof Config;
+    const raw = match[2];
+    const current = DEFAULT_CONFIG[key];
+    if (!Object.hasOwn(DEFAULT_CONFIG, key)) {
+      errors.push(`Unknown setting "${key}"`);
+    } else if (FIXED_KEYS.includes(key)) {
+      errors.push(`"${key}" can't be overridden`);
+    } else if (typeof current === "number") {
+      const spec = paramSpec(key);
+      const value = spec ? clampParam(spec, Number(raw)) : Number(raw);
+      if (value !== null && Number.isFinite(value)) (overrides as Record<string, unknown>)[key] = value;
+      else errors.push(`"${key}" needs a number`);
+    } else if (typeof current === "boolean") {
+      if (raw === "true" || raw === "false") (overrides as Record<string, unknown>)[key] = raw === "true";
+      else errors.push(`"${key}" needs true or false`);
+    } else {
+      errors.push(`"${key}" can't be overridden`);
+    }
+  }
+
+  return { overrides, errors };
+}
+
+export function formatOverrides(overrides: Partial<Config>) {
+  return Object.entries(overrides)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG } from "./config";
+import { applyQuality, createQualityController, MAX_QUALITY_LEVEL, QualityController } from "./quality";
+
+const BUDGET = 16;
+const FRAME = 16;
+
+// Feed `frames` identical frames starting at `start` ms, returning the level
+// changes and when the last frame landed
+function feed(controller: QualityController, frames: number, frameMs: number, workMs: number, start: number) {
+  const changes: number[] = [];
+  let now = start;
+  for (let i = 0; i < frames; i++) {
+    now += FRAME;
+    const level = controller.sample(frameMs, workMs, BUDGET, now);
+    if (level !== null) changes.push(level);
+  }
+  return { changes, now };
+}
+
+describe("createQualityController", () => {
+  it("holds the level while frames fit the budget", () => {
+    const controller = createQualityController();
+    expect(feed(controller, 300, 15, 10, 0).changes).toEqual([]);
+    expect(controller.level).toBe(0);
+  });
+
+  it("steps down once a sample runs over budget, then waits before judging again", () => {
+    const controller = createQualityController();
+    const first = feed(controller, 30, 25, 20, 0);
+    expect(first.changes).toEqual([1]);
+
+    // Still slow, but inside the cooldown
+    expect(feed(controller, 100, 25, 20, first.now).changes).toEqual([]);
+    expect(controller.level).toBe(1);
+  });
+
+  it("never goes past the last level", () => {
+    const controller = createQualityController();
+    let now = 0;
+    for (let i = 0; i < MAX_QUALITY_LEVEL + 3; i++) now = feed(controller, 30, 40, 30, now + 2000).now;
+    expect(controller.level).toBe(MAX_QUALITY_LEVEL);
+  });
+
+  it("steps back up only with clear headroom", () => {
+    const controller = createQualityController();
+    const slow = feed(controller, 30, 25, 20, 0);
+
+    // On budget but busy: stays put
+    const busy = feed(controller, 30, 16, 12, slow.now + 2000);
+    expect(busy.changes).toEqual([]);
+
+    const idle = feed(controller, 30, 16, 4, busy.now + 2000);
+    expect(idle.changes).toEqual([0]);
+  });
+
+  it("starts over after a reset", () => {
+    const controller = createQualityController();
+    const slow = feed(controller, 30, 25, 20, 0);
+    controller.reset();
+    expect(controller.level).toBe(0);
+    // No cooldown left over from before the reset
+    expect(feed(controller, 30, 25, 20, slow.now).changes).toEqual([1]);
+  });
+});
+
+describe("applyQuality", () => {
+  it("leaves the config alone at full quality", () => {
+    expect(applyQuality(DEFAULT_CONFIG, 0)).toBe(DEFAULT_CONFIG);
+  });
+
+  it("gives up more at each level", () => {
+    const config = { ...DEFAULT_CONFIG, collisions: true, ambientCount: 100, dustFlocking: 0.5 };
+    expect(applyQuality(config, 1).collisions).toBe(false);
+    expect(applyQuality(config, 1).ambientCount).toBe(100);
+    expect(applyQuality(config, 2).ambientCount).toBe(40);
+    expect(applyQuality(config, 2).dustFlocking).toBe(0);
+    expect(applyQuality(config, 3).gridSpacing).toBe(config.gridSpacing + 1);
+    expect(applyQuality(config, 4).gridSpacing).toBe(config.gridSpacing + 2);
+    expect(applyQuality(config, 4).textKeepProb).toBeLessThan(config.textKeepProb);
+  });
+});
@@ -0,0 +1,83 @@
+import { Config } from "./config";
+
+// Each level gives up a little more than the one before it. Level 0 is the
+// config as set; the cheap runtime switches come first, resampling last.
+export const QUALITY_LEVELS = ["Full", "No Collisions", "Less Dust", "Sparser", "Sparsest"];
+export const MAX_QUALITY_LEVEL = QUALITY_LEVELS.length - 1;
+
+// Frames averaged before judging, and the wait after a change so the new
+// level gets measured on its own
+const SAMPLE_FRAMES = 30;
+const COOLDOWN_MS = 2000;
+// Step back up only once work fits this share of the budget
+const HEADROOM = 0.5;
+
+// The config a quality level actually runs with.
+export function applyQuality(config: Config, level: number): Config {
+  if (level <= 0) return config;
+  const out = { ...config, collisions: false };
+  if (level >= 2) {
+    out.ambientCount = Math.round(config.ambientCount * 0.4);
+    out.dustFlocking = 0;
+  }
+  if (level >= 3) out.gridSpacing = config.gridSpacing + 1;
+  if (level >= 4) {
+    out.gridSpacing = config.gridSpacing + 2;
+    out.textKeepProb = config.textKeepProb * 0.75;
+    out.backgroundKeepProb = config.backgroundKeepProb * 0.5;
+  }
+  return out;
+}
+
+export type QualityController = {
+  readonly level: number;
+  // Feed one frame: the time since the last one and how much of it went to
+  // stepping and drawing. Returns the new level when it changes.
+  sample: (frameMs: number, workMs: number, budgetMs: number, now: number) => number | null;
+  reset: () => void;
+};
+
+/**
+ * Steps quality down while frames run over budget and back up when there's
+ * clear headroom. Frame intervals catch GPU stalls that work time misses;
+ * work time shows headroom that vsync hides.
+ */
+export function createQualityController(): QualityController {
+  let level = 0;
+  let frames = 0;
+  let frameSum = 0;
+  let workSum = 0;
+  let lastChange = -Infinity;
+
+  const change = (next: number, now: number) => {
+    level = next;
+    lastChange = now;
+    return level;
+  };
+
+  return {
+    get level() {
+      return level;
+    },
+    sample: (frameMs, workMs, budgetMs, now) => {
+      if (now - lastChange < COOLDOWN_MS) return null;
+      frames++;
+      frameSum += frameMs;
+      workSum += workMs;
+      if (frames < SAMPLE_FRAMES) return null;
+
+      const frameAvg = frameSum / frames;
+      const workAvg = workSum / frames;
+      frames = frameSum = workSum = 0;
+
+      if (frameAvg > budgetMs && level < MAX_QUALITY_LEVEL) return change(level + 1, now);
+      if (frameAvg <= budgetMs && workAvg < budgetMs * HEADROOM && level > 0) return change(level - 1, now);
+      return null;
+    },
+    reset: () => {
+      level = 0;
+      frames = frameSum = workSum = 0;
+      lastChange = -Infinity;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+// Small seedable PRNG (mulberry32). Every random decision in the engine goes
+// through one of these so a given seed reproduces the exact same run.
+export type Random = {
+  next: () => number; // [0, 1)
+  range: (min: number, max: number) => number;
+};
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+  };
+}
+
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff);
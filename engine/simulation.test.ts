@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { Config, DEFAULT_CONFIG } from "./config";
+import { countKind, DISSOLVING, KIND_TEXT } from "./particles";
+import { createSimulation, Simulation } from "./simulation";
+import { FIXED_STEP_MS } from "./timestep";
+import { Mask } from "./types";
+
+// A solid block of "text" in the middle of a small field, `fill` of it wide
+function blockMask(width = 160, height = 80, fill = 0.5): Mask {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = Math.floor(height * 0.3); y < height * 0.7; y++) {
+    for (let x = Math.floor(width * (1 - fill) / 2); x < width * (1 + fill) / 2; x++) data[(y * width + x) * 4 + 3] = 255;
+  }
+  return { width, height, data, letterCount: 1 };
+}
+
+function run(sim: Simulation, ms: number) {
+  for (let t = 0; t < ms; t += FIXED_STEP_MS) sim.step(FIXED_STEP_MS);
+}
+
+// Furthest any text particle is from its rest spot
+function maxTextOffset(sim: Simulation) {
+  const { count, kind, x, y, baseX, baseY, jitterX, jitterY } = sim.particles;
+  let max = 0;
+  for (let i = 0; i < count; i++) {
+    if (kind[i] !== KIND_TEXT) continue;
+    max = Math.max(max, Math.hypot(x[i] - baseX[i] - jitterX[i], y[i] - baseY[i] - jitterY[i]));
+  }
+  return max;
+}
+
+// Where each text particle is, keyed by position
+function textPositions(sim: Simulation) {
+  const { count, kind, x, y } = sim.particles;
+  const out = new Set<string>();
+  for (let i = 0; i < count; i++) if (kind[i] === KIND_TEXT) out.add(`${x[i]},${y[i]}`);
+  return out;
+}
+
+// Every sample becomes a particle, so counts only depend on the mask
+const SETTLED: Config = {
+  ...DEFAULT_CONFIG,
+  collisions: false,
+  bounceProb: 0,
+  reducedMotion: true,
+  textKeepProb: 1,
+  backgroundKeepProb: 1,
+};
+
+describe("createSimulation", () => {
+  it("plays out the same for the same seed", () => {
+    const config: Config = { ...DEFAULT_CONFIG, seed: 42 };
+    const a = createSimulation(blockMask(), config);
+    const b = createSimulation(blockMask(), config);
+    run(a, 2000);
+    run(b, 2000);
+
+    expect(a.particles.count).toBe(b.particles.count);
+    expect(a.particles.x).toEqual(b.particles.x);
+    expect(a.particles.y).toEqual(b.particles.y);
+
+    const other = createSimulation(blockMask(), { ...config, seed: 7 });
+    run(other, 2000);
+    expect(other.particles.x).not.toEqual(a.particles.x);
+  });
+
+  it("brings text particles back to their targets after a wave", () => {
+    // No collisions or random bounces, so the only thing moving the text is
+    // the wave. Reduced motion keeps new waves from spawning.
+    const sim = createSimulation(blockMask(), {
+      ...DEFAULT_CONFIG,
+      collisions: false,
+      bounceProb: 0,
+      reducedMotion: true,
+    });
+    run(sim, 1000);
+    expect(maxTextOffset(sim)).toBeLessThan(0.01);
+
+    sim.setConfig({ reducedMotion: false });
+    let peak = 0;
+    for (let t = 0; t < 1500; t += FIXED_STEP_MS) {
+      sim.step(FIXED_STEP_MS);
+      peak = Math.max(peak, maxTextOffset(sim));
+    }
+    expect(peak).toBeGreaterThan(1);
+
+    sim.setConfig({ reducedMotion: true });
+    run(sim, 4000);
+    expect(maxTextOffset(sim)).toBeLessThan(0.1);
+  });
+});
+
+describe("morphTo", () => {
+  it("moves old text particles onto the new targets and dissolves the rest", () => {
+    const sim = createSimulation(blockMask(160, 80, 0.5), SETTLED);
+    run(sim, 500);
+    const before = textPositions(sim);
+    const expected = createSimulation(blockMask(160, 80, 0.25), SETTLED).getStats().text;
+
+    sim.morphTo(blockMask(160, 80, 0.25));
+    // Nothing has moved yet, so every kept particle is one of the old ones
+    expect(countKind(sim.particles, KIND_TEXT)).toBe(expected);
+    for (const position of textPositions(sim)) expect(before.has(position)).toBe(true);
+    expect(countKind(sim.particles, KIND_TEXT | DISSOLVING)).toBe(before.size - expected);
+
+    run(sim, SETTLED.morphDuration + 100);
+    expect(sim.getStats().dissolving).toBe(0);
+    expect(countKind(sim.particles, KIND_TEXT)).toBe(expected);
+  });
+
+  it("flies missing text particles in from outside the field", () => {
+    const sim = createSimulation(blockMask(160, 80, 0.25), SETTLED);
+    run(sim, 500);
+    const before = textPositions(sim);
+
+    sim.morphTo(blockMask(160, 80, 0.75));
+    const { count, kind, x, y, activation } = sim.particles;
+    let spawned = 0;
+    for (let i = 0; i < count; i++) {
+      if (kind[i] !== KIND_TEXT || before.has(`${x[i]},${y[i]}`)) continue;
+      spawned++;
+      expect(Math.abs(x[i]) > sim.width / 2 || Math.abs(y[i]) > sim.height / 2).toBe(true);
+      expect(activation[i]).toBe(0);
+    }
+    expect(spawned).toBe(countKind(sim.particles, KIND_TEXT) - before.size);
+    expect(spawned).toBeGreaterThan(0);
+
+    run(sim, SETTLED.morphDuration + 3000);
+    expect(maxTextOffset(sim)).toBeLessThan(0.1);
+  });
+});
@@ -0,0 +1,973 @@
+import { Config } from "./config";
+import { clamp, EASINGS, easeOutCubic, lerp } from "./math";
+import { createRandom } from "./random";
+import {
+  addParticle,
+  clearParticles,
+  copyParticle,
+  createParticleStore,
+  DISSOLVING,
+  KIND_BACKGROUND,
+  KIND_DUST,
+  KIND_TEXT,
+  ParticleStore,
+  removeDissolving,
+} from "./particles";
+import { createForce, Force, ForceContext, ForceSettings, kindBit, sameForces, targetMask } from "./forces";
+import { createDustBehavior, DUST_KEYS, DustBehavior, wrapToField } from "./dust";
+import { edgeSpawnPoint, orderForMorph } from "./morph";
+import { buildSpatialHash, cellColumn, cellRow, createSpatialHash } from "./spatialHash";
+import { Mask, Pointer, SimulationEvent, Wave } from "./types";
+
+export const TEXT_RADIUS = 1.1;
+export const BG_RADIUS = 1.0;
+
+const JITTER_AMOUNT = 0.5;
+// Below this a weighted mask pixel counts as background
+const WEIGHTED_MIN_ALPHA = 8;
+
+export const ZOOM_START = 3.0;
+export const ZOOM_END = 1.0;
+
+// Share of the intro/outro timeline over which particles start, per style.
+// The last ones start this late and still finish on time.
+const STAGE_SPREAD: Record<Config["introStyle"], number> = {
+  zoom: 0.5,
+  scatter: 0.3,
+  fall: 0.5,
+  stagger: 0.7,
+  sweep: 0.7,
+};
+// How far falling text starts above (or ends below) the field
+const STAGE_MARGIN = 20;
+// Letter-by-letter text rises this far into place
+const STAGGER_RISE = 24;
+
+const MAIN_WAVE_MIN_RADIUS = 10;
+
+const REVEAL_OFFSET = 40;
+const REVEAL_WIDTH = 140;
+
+// Flinging needs a wider grab area than the default repulsion radius
+const FLING_MIN_RADIUS = 24;
+// How quickly grabbed particles take on the pointer's velocity
+const FLING_BLEND = 0.35;
+// Dust reacts to pointers at this fraction of the strength
+const DUST_POINTER_SCALE = 0.5;
+
+const CELL_SIZE = 6; // Roughly 2x max particle radius + buffer
+
+// How far outside the field morph particles spawn from
+const MORPH_EDGE_MARGIN = 20;
+// Nudge given to particles that dissolve so they visibly break away
+const DISSOLVE_KICK = 1.5;
+
+export type Bounds = { minX: number; maxX: number; minY: number; maxY: number };
+
+// Particle counts by kind (dissolving ones counted separately) and the size
+// of the collision grid, for diagnostics.
+export type SimulationStats = {
+  text: number;
+  background: number;
+  dust: number;
+  dissolving: number;
+  cells: number;
+};
+
+export type Simulation = {
+  readonly width: number;
+  readonly height: number;
+  // Text, background grid and dust particles, distinguished by `kind`
+  readonly particles: ParticleStore;
+  readonly waves: Wave[];
+  // Advance the simulation by `delta` milliseconds. Spring, friction and
+  // collisions are applied once per call, so drive this with a fixed step.
+  step: (delta: number) => void;
+  setConfig: (patch: Partial<Config>) => void;
+  getConfig: () => Config;
+  // Every active pointer, in canvas pixels; the zoom is applied internally.
+  setPointers: (pointers: Pointer[]) => void;
+  getZoom: () => number;
+  getTime: () => number;
+  // Origin of the text's first letter, in field coordinates
+  getWaveOrigin: () => { x: number; y: number };
+  // Bounds of the text particles' rest positions, in field coordinates
+  getTextBounds: () => Bounds;
+  // Spawn a wave at a point in canvas pixels, e.g. where the user clicked.
+  triggerWave: (x: number, y: number) => void;
+  // Emit a wave from the configured origin right away, with `scale` times
+  // the usual force. Restarts the interval timer.
+  emitWave: (scale: number) => void;
+  // Events since the last call, oldest first.
+  takeEvents: () => SimulationEvent[];
+  getStats: () => SimulationStats;
+  resize: (mask: Mask) => void;
+  // Move the existing particles onto a new mask over config.morphDuration.
+  morphTo: (mask: Mask) => void;
+  // Play the intro backwards, e.g. before the text changes. Emits an
+  // outroComplete event once the text is gone.
+  startOutro: () => void;
+};
+
+/**
+ * Headless particle simulation. Owns all physics state and never touches the
+ * DOM, so it can be driven from React, a worker or a Node script alike.
+ */
+export function createSimulation(initialMask: Mask, initialConfig: Config): Simulation {
+  let mask = initialMask;
+  let width = mask.width;
+  let height = mask.height;
+  let config: Config = { ...initialConfig };
+  const rng = createRandom(config.seed);
+  const randRange = rng.range;
+
+  const particles = createParticleStore();
+  // Sampling target for morphs, kept around to avoid reallocating
+  let incoming: ParticleStore | null = null;
+  const grid = createSpatialHash(CELL_SIZE);
+  const waves: Wave[] = [];
+  let pointers: Pointer[] = [];
+  // Pointers in field coordinates, refreshed at the start of every step
+  const localPointers: { x: number; y: number; vx: number; vy: number; strength: number; pressed: boolean }[] = [];
+
+  // Origin of the text's first letter, in field coordinates
+  let waveOrigin = { x: 0, y: 0 };
+  // Approximate letter layout along the text's widest line, for the emitter
+  let letters = { left: 0, width: 0, count: 1 };
+  let textBounds: Bounds = { minX: 0, maxX: 0, minY: 0, maxY: 0 };
+  let emittedWaves = 0;
+  let accumulatedTime = 0;
+  let timeSinceLastWave = 0;
+  let morphStart = 0;
+  let morphing = false;
+  let introComplete = false;
+  // Field time the outro started at, null until it's played
+  let outroStart: number | null = null;
+  let outroComplete = false;
+  let events: SimulationEvent[] = [];
+  let forces: Force[] = [];
+  let dust: DustBehavior = createDustBehavior(config, waves, rng);
+
+  const isOn = (alpha: number) => (mask.weighted ? alpha >= WEIGHTED_MIN_ALPHA : alpha > 128);
+
+  function seedParticles() {
+    morphing = false;
+    sampleMask(particles);
+  }
+
+  // Sample the current mask into `store`, replacing whatever it held.
+  function sampleMask(store: ParticleStore) {
+    const imgData = mask.data;
+    clearParticles(store);
+    // Whole pixels only, or the row/column offsets below stop lining up
+    const spacing = Math.max(1, Math.round(config.gridSpacing));
+
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+
+    for (let y = 0; y < height; y += spacing) {
+      for (let x = 0; x < width; x += spacing) {
+        const i = (y * width + x) * 4;
+        if (isOn(imgData[i + 3])) {
+          if (x < minX) minX = x;
+          if (x > maxX) maxX = x;
+          if (y < minY) minY = y;
+          if (y > maxY) maxY = y;
+        }
+      }
+    }
+
+    const textCenterX = minX === Infinity ? width/2 : (minX + maxX) / 2;
+    const textCenterY = minY === Infinity ? height/2 : (minY + maxY) / 2;
+
+    const numLetters = mask.letterCount;
+    const totalWidth = Math.max(1, maxX - minX);
+
+    const approxLetterWidth = totalWidth / Math.max(1, numLetters);
+    letters = {
+      left: minX === Infinity ? 0 : minX - textCenterX,
+      width: minX === Infinity ? 0 : approxLetterWidth,
+      count: Math.max(1, numLetters),
+    };
+    waveOrigin = letterOrigin(0);
+    textBounds =
+      minX === Infinity
+        ? { minX: 0, maxX: 0, minY: 0, maxY: 0 }
+        : { minX: minX - textCenterX, maxX: maxX - textCenterX, minY: minY - textCenterY, maxY: maxY - textCenterY };
+
+    for (let y = 0; y < height; y += spacing) {
+      for (let x = 0; x < width; x += spacing) {
+        const i = (y * width + x) * 4;
+        const a = imgData[i + 3];
+        const isText = isOn(a);
+        // Weighted masks thin out and dim particles in faint areas
+        const weight = mask.weighted ? a / 255 : 1;
+
+        if (isText && rng.next() > config.textKeepProb * weight) continue;
+        if (!isText && rng.next() > config.backgroundKeepProb) continue;
+
+        const baseX = x - textCenterX;
+        const baseY = y - textCenterY;
+
+        const jitterX = isText ? randRange(-0.2, 0.2) : randRange(-JITTER_AMOUNT * 3, JITTER_AMOUNT * 3);
+        const jitterY = isText ? randRange(-0.2, 0.2) : randRange(-JITTER_AMOUNT * 3, JITTER_AMOUNT * 3);
+
+        const dx = baseX - waveOrigin.x;
+        const dy = baseY - waveOrigin.y;
+
+        const p = addParticle(store, isText ? KIND_TEXT : KIND_BACKGROUND);
+        store.baseX[p] = baseX;
+        store.baseY[p] = baseY;
+        store.x[p] = store.prevX[p] = baseX + jitterX;
+        store.y[p] = store.prevY[p] = baseY + jitterY;
+        store.jitterX[p] = jitterX;
+        store.jitterY[p] = jitterY;
+        store.dist[p] = Math.hypot(dx, dy);
+        store.activation[p] = isText ? 0 : 1;
+        store.brightness[p] = isText ? weight : 1;
+        store.phase[p] = rng.next() * Math.PI * 2;
+        store.friction[p] = randRange(0.92, 0.97);
+        store.mass[p] = randRange(0.6, 1.4);
+        store.radius[p] = TEXT_RADIUS;
+      }
+    }
+
+    // Dust is scattered evenly over the whole field and starts at home
+    for (let n = 0; n < Math.floor(config.ambientCount); n++) {
+      addDust(store, randRange(-width * 0.5, width * 0.5), randRange(-height * 0.5, height * 0.5));
+    }
+  }
+
+  function addDust(store: ParticleStore, x: number, y: number) {
+    const p = addParticle(store, KIND_DUST);
+    store.baseX[p] = x;
+    store.baseY[p] = y;
+    store.x[p] = store.prevX[p] = x;
+    store.y[p] = store.prevY[p] = y;
+    store.phase[p] = rng.next() * Math.PI * 2;
+    store.activation[p] = 1;
+    store.brightness[p] = 1;
+    store.friction[p] = randRange(0.90, 0.96);
+    store.mass[p] = randRange(0.5, 1.5);
+    store.radius[p] = BG_RADIUS;
+  }
+
+  // Reduced motion implies no intro
+  const introSkipped = () => config.skipIntro || config.reducedMotion;
+
+  // Eased intro and outro progress, 0..1
+  const ease = (t: number) => EASINGS[config.introEasing](clamp(t, 0, 1));
+  const introProgress = () => ease(accumulatedTime / Math.max(1, config.introDuration));
+  const outroProgress = () =>
+    outroStart === null ? 0 : ease((accumulatedTime - outroStart) / Math.max(1, config.outroDuration));
+
+  function getZoom() {
+    if (config.introStyle !== "zoom" || config.reducedMotion) return 1;
+    // The zoom outro pushes back in towards the starting zoom
+    if (outroStart !== null) return lerp(ZOOM_END, ZOOM_START, outroProgress());
+    if (introSkipped()) return 1;
+    return lerp(ZOOM_START, ZOOM_END, introProgress());
+  }
+
+  function finishIntro() {
+    if (introComplete) return;
+    introComplete = true;
+    events.push({ type: "introComplete" });
+    // Only the zoom intro leaves the reveal to the first wave
+    if (config.introStyle === "zoom") return;
+    for (let i = 0; i < particles.count; i++) {
+      if (particles.kind[i] === KIND_TEXT) particles.activation[i] = 1;
+    }
+  }
+
+  // Park text particles off stage: where they enter from for the intro, or
+  // where they leave to for the outro. Entering particles start there.
+  function stageText(entering: boolean) {
+    const { kind, x, y, prevX, prevY, baseX, baseY, jitterX, jitterY, stageX, stageY } = particles;
+    const hw = width / 2;
+    const hh = height / 2;
+    for (let i = 0; i < particles.count; i++) {
+      if (kind[i] !== KIND_TEXT) continue;
+      let sx = baseX[i] + jitterX[i];
+      let sy = baseY[i] + jitterY[i];
+      if (config.introStyle === "scatter") {
+        sx = randRange(-hw, hw);
+        sy = randRange(-hh, hh);
+      } else if (config.introStyle === "fall") {
+        // Spread out vertically so the text rains in rather than dropping as a slab
+        const drop = hh + STAGE_MARGIN + rng.next() * hh;
+        sy = entering ? -drop : drop;
+      } else if (config.introStyle === "stagger") {
+        sy += entering ? STAGGER_RISE : -STAGGER_RISE;
+      }
+      stageX[i] = sx;
+      stageY[i] = sy;
+      if (entering) {
+        x[i] = prevX[i] = sx;
+        y[i] = prevY[i] = sy;
+      }
+    }
+  }
+
+  // Sorts text particles for staggering, returning 0..1 for particle `i`:
+  // distance from the first letter for zoom, the letter for stagger, how far
+  // along the sweep, or just random.
+  function createStageOrder() {
+    const { minX, maxX, minY, maxY } = textBounds;
+    if (config.introStyle === "zoom") {
+      const far = Math.max(
+        1,
+        ...[minX, maxX].flatMap((cx) => [minY, maxY].map((cy) => Math.hypot(cx - waveOrigin.x, cy - waveOrigin.y)))
+      );
+      return (i: number) => clamp(particles.dist[i] / far, 0, 1);
+    }
+    if (config.introStyle === "stagger") {
+      const last = Math.max(1, letters.count - 1);
+      return (i: number) =>
+        letters.width > 0 ? clamp(Math.floor((particles.baseX[i] - letters.left) / letters.width), 0, last) / last : 0;
+    }
+    if (config.introStyle === "sweep") {
+      const angle = (config.introAngle * Math.PI) / 180;
+      const dirX = Math.cos(angle);
+      const dirY = Math.sin(angle);
+      const corners = [minX, maxX].flatMap((cx) => [minY, maxY].map((cy) => cx * dirX + cy * dirY));
+      const from = Math.min(...corners);
+      const span = Math.max(1, Math.max(...corners) - from);
+      return (i: number) => clamp((particles.baseX[i] * dirX + particles.baseY[i] * dirY - from) / span, 0, 1);
+    }
+    return (i: number) => particles.phase[i] / (Math.PI * 2);
+  }
+
+  // Center of letter `k` (wrapping) in field coordinates
+  function letterOrigin(k: number) {
+    return { x: letters.left + letters.width * ((k % letters.count) + 0.5), y: 0 };
+  }
+
+  function emitterOrigin() {
+    switch (config.waveOrigin) {
+      case "center":
+        return { x: 0, y: 0 };
+      case "letters":
+        return letterOrigin(emittedWaves);
+      case "random":
+        return { x: randRange(-width * 0.5, width * 0.5), y: randRange(-height * 0.5, height * 0.5) };
+      case "fixed":
+        return { x: (config.waveOriginX - 0.5) * width, y: (config.waveOriginY - 0.5) * height };
+      default:
+        return waveOrigin;
+    }
+  }
+
+  function addWave(x: number, y: number, strength: number, triggered: boolean) {
+    if (config.reducedMotion) return;
+    const zoom = getZoom();
+    events.push({ type: "wave", x: width / 2 + x * zoom, y: height / 2 + y * zoom, triggered });
+    waves.push({
+      x,
+      y,
+      radius: 0,
+      speed: config.waveSpeed,
+      strength,
+      thickness: config.waveThickness,
+    });
+  }
+
+  function updateWaves(delta: number) {
+    // Update waves (Integration)
+    for (const w of waves) {
+      w.radius += delta * w.speed;
+    }
+
+    // Remove dead waves; with their own speeds they can finish out of order
+    const maxDist = Math.hypot(width, height) + 200;
+    for (let k = waves.length - 1; k >= 0; k--) {
+      if (waves[k].radius > maxDist) waves.splice(k, 1);
+    }
+
+    // Spawn waves. Reduced motion has none, so don't keep trying.
+    if (config.reducedMotion) return;
+    timeSinceLastWave += delta;
+    if ((waves.length === 0 && timeSinceLastWave >= delta) || timeSinceLastWave > config.waveInterval) {
+      emitWave(1);
+    }
+  }
+
+  function emitWave(scale: number) {
+    if (config.reducedMotion) return;
+    const origin = emitterOrigin();
+    addWave(origin.x, origin.y, config.radialKick * scale, false);
+    emittedWaves++;
+    timeSinceLastWave = 0;
+  }
+
+  // Spawn a wave at a point given in canvas pixels, like the pointer
+  function triggerWave(px: number, py: number) {
+    const zoom = getZoom();
+    addWave((px - width / 2) / zoom, (py - height / 2) / zoom, config.radialKick * config.clickWaveStrength, true);
+  }
+
+  function resolveCollisions() {
+    // Text particles are "inactive" if alpha is 0 during intro, but let's collide them anyway for stability
+    buildSpatialHash(grid, particles, width, height);
+
+    const { x, y, vx, vy, mass, radius } = particles;
+    const { cols, rows, cellStart, entries } = grid;
+    const damping = config.collisionDamping;
+
+    for (let i = 0; i < particles.count; i++) {
+      const cellX = cellColumn(grid, x[i]);
+      const cellY = cellRow(grid, y[i]);
+
+      // Check 3x3 neighbor grid cells
+      for (let ox = -1; ox <= 1; ox++) {
+        const cx = cellX + ox;
+        if (cx < 0 || cx >= cols) continue;
+        for (let oy = -1; oy <= 1; oy++) {
+          const cy = cellY + oy;
+          if (cy < 0 || cy >= rows) continue;
+          const cell = cy * cols + cx;
+
+          for (let k = cellStart[cell]; k < cellStart[cell + 1]; k++) {
+            const j = entries[k];
+            if (i === j) continue; // Don't collide with self
+
+            const dx = x[j] - x[i];
+            const dy = y[j] - y[i];
+            const distSq = dx * dx + dy * dy;
+            const minDist = radius[i] + radius[j];
+
+            // Optimization: distSq check avoids sqrt if not needed
+            if (distSq < minDist * minDist && distSq > 0.001) {
+              const dist = Math.sqrt(distSq);
+              const overlap = minDist - dist;
+
+              // 1. Separate particles (Position Correction)
+              // Distribute overlap correction based on inverse mass (heavier moves less)
+              const m1 = mass[i];
+              const m2 = mass[j];
+              const totalMass = m1 + m2;
+              const m1Ratio = m2 / totalMass; // Inverse proportion
+              const m2Ratio = m1 / totalMass;
+
+              const nx = dx / dist;
+              const ny = dy / dist;
+
+              // Soft separation to avoid jitters
+              const separationX = nx * overlap * 0.5;
+              const separationY = ny * overlap * 0.5;
+
+              x[i] -= separationX * 2 * m1Ratio; // *2 because each particle corrects half the overlap otherwise
+              y[i] -= separationY * 2 * m1Ratio;
+              x[j] += separationX * 2 * m2Ratio;
+              y[j] += separationY * 2 * m2Ratio;
+
+              // 2. Elastic Collision (Velocity Exchange)
+              // Normal velocity components
+              const v1n = vx[i] * nx + vy[i] * ny;
+              const v2n = vx[j] * nx + vy[j] * ny;
+
+              // Skip if moving apart already
+              if (v1n < v2n) continue;
+
+              // 1D Elastic collision formula along the normal
+              // v1' = (v1(m1-m2) + 2m2v2) / (m1+m2)
+              const v1nFinal = (v1n * (m1 - m2) + 2 * m2 * v2n) / totalMass;
+              const v2nFinal = (v2n * (m2 - m1) + 2 * m1 * v1n) / totalMass;
+
+              // Apply changes to velocity vector
+              const dv1n = v1nFinal - v1n;
+              const dv2n = v2nFinal - v2n;
+
+              vx[i] += dv1n * nx * damping;
+              vy[i] += dv1n * ny * damping;
+              vx[j] += dv2n * nx * damping;
+              vy[j] += dv2n * ny * damping;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  function updateLocalPointers(zoom: number) {
+    localPointers.length = 0;
+    for (const p of pointers) {
+      localPointers.push({
+        x: (p.x - width / 2) / zoom,
+        y: (p.y - height / 2) / zoom,
+        vx: p.vx / zoom,
+        vy: p.vy / zoom,
+        // Pressure 0.5 is the neutral strength
+        strength: config.pressureScaling ? p.pressure * 2 : 1,
+        pressed: p.pressed,
+      });
+    }
+  }
+
+  // Push particle `i` around according to every pointer within reach.
+  function applyPointers(i: number, scale: number, delta: number) {
+    const { x, y, vx, vy, mass } = particles;
+    const mode = config.pointerMode;
+    const radius = mode === "fling" ? Math.max(config.repulsionRadius, FLING_MIN_RADIUS) : config.repulsionRadius;
+
+    for (const p of localPointers) {
+      if (mode === "fling" && !p.pressed) continue;
+
+      const dx = x[i] - p.x;
+      const dy = y[i] - p.y;
+      const dist = Math.hypot(dx, dy);
+      if (dist >= radius) continue;
+
+      const t = 1 - dist / radius;
+      if (mode === "fling") {
+        // Drag nearby particles along; they keep the speed on release
+        const blend = t * FLING_BLEND * scale * Math.min(1, p.strength);
+        vx[i] += (p.vx * delta - vx[i]) * blend;
+        vy[i] += (p.vy * delta - vy[i]) * blend;
+        continue;
+      }
+
+      // Cubic falloff for smooth, subtle interaction
+      const acc = (t * t * t * config.repulsionStrength * p.strength * scale) / mass[i];
+      const angle = Math.atan2(dy, dx);
+      const dirX = Math.cos(angle);
+      const dirY = Math.sin(angle);
+      if (mode === "attract") {
+        vx[i] -= dirX * acc;
+        vy[i] -= dirY * acc;
+      } else if (mode === "swirl") {
+        vx[i] -= dirY * acc;
+        vy[i] += dirX * acc;
+      } else {
+        vx[i] += dirX * acc;
+        vy[i] += dirY * acc;
+      }
+    }
+  }
+
+  // Kick from every wave band the particle's rest spot is in. Also records
+  // the strongest band in `wave` for coloring.
+  function createWaveForce(settings: ForceSettings): Force {
+    let time = 0;
+    return {
+      targets: targetMask(settings.target),
+      begin: (ctx) => {
+        time = ctx.time;
+      },
+      apply: (i) => {
+        const { kind, vx, vy, baseX, baseY, phase, wave } = particles;
+        const { noiseKick, bounceProb } = config;
+        const isText = kind[i] === KIND_TEXT;
+        let totalKickX = 0;
+        let totalKickY = 0;
+
+        for (const w of waves) {
+          const wRadius = w.radius;
+
+          const fade = clamp(
+            (wRadius - MAIN_WAVE_MIN_RADIUS) /
+              Math.max(1, config.mainWaveFadeRadius - MAIN_WAVE_MIN_RADIUS),
+            0,
+            1
+          );
+
+          // Distance from this wave's own origin to the particle's rest spot
+          const odx = baseX[i] - w.x;
+          const ody = baseY[i] - w.y;
+          const d = Math.sqrt(odx * odx + ody * ody);
+
+          const bandWidthPx = w.thickness;
+          const bandDist = Math.abs(d - wRadius);
+          if (bandDist >= bandWidthPx) continue;
+
+          const tBand = 1 - bandDist / bandWidthPx;
+          // Smooth curve for the band
+          const tBandSmooth = tBand * tBand * (3 - 2 * tBand);
+          wave[i] = Math.max(wave[i], tBandSmooth * fade);
+
+          const dirX = d > 0 ? odx / d : 0;
+          const dirY = d > 0 ? ody / d : 0;
+
+          const noiseAngle = phase[i] + time * 0.0007 + wRadius * 0.002;
+          const nx = Math.cos(noiseAngle);
+          const ny = Math.sin(noiseAngle);
+
+          const mix = clamp(noiseKick, 0, 1);
+          const kickStrength = w.strength * fade * settings.strength;
+
+          // Blend radial direction with noise direction
+          const fx = (dirX * (1 - mix) + nx * mix) * kickStrength * tBandSmooth;
+          const fy = (dirY * (1 - mix) + ny * mix) * kickStrength * tBandSmooth;
+
+          totalKickX += fx;
+          totalKickY += fy;
+
+          if (isText && rng.next() < bounceProb * tBand * 0.5) {
+            const extra = randRange(0.4, 1.0) * settings.strength;
+            totalKickX += dirX * extra;
+            totalKickY += dirY * extra;
+          }
+        }
+
+        vx[i] += totalKickX;
+        vy[i] += totalKickY;
+      },
+    };
+  }
+
+  function createPointerForce(settings: ForceSettings): Force {
+    return {
+      targets: targetMask(settings.target),
+      apply: (i, ctx) => {
+        if (localPointers.length === 0) return;
+        const k = particles.kind[i];
+        const scale = k === KIND_DUST || k & DISSOLVING ? DUST_POINTER_SCALE : 1;
+        applyPointers(i, scale * settings.strength, ctx.delta);
+      },
+    };
+  }
+
+  // Modules for the enabled entries of config.forces, in order
+  function buildForces() {
+    forces = [];
+    for (const settings of config.forces) {
+      if (!settings.enabled) continue;
+      const force =
+        settings.type === "wave"
+          ? createWaveForce(settings)
+          : settings.type === "pointer"
+            ? createPointerForce(settings)
+            : createForce(settings, config.seed);
+      if (force) forces.push(force);
+    }
+  }
+
+  function step(delta: number) {
+    for (let i = 0; i < particles.count; i++) {
+      particles.prevX[i] = particles.x[i];
+      particles.prevY[i] = particles.y[i];
+    }
+
+    if (!config.paused) {
+      accumulatedTime += delta;
+      updateWaves(delta);
+    }
+    if (!introComplete && (introSkipped() || accumulatedTime >= config.introDuration)) {
+      finishIntro();
+    }
+    if (outroStart !== null && !outroComplete) {
+      if (config.reducedMotion || accumulatedTime - outroStart >= config.outroDuration) {
+        outroComplete = true;
+        events.push({ type: "outroComplete" });
+      }
+    }
+    const { returnStrength } = config;
+    const skipIntro = introSkipped();
+
+    const zoom = getZoom();
+
+    const firstWave = waves[0];
+    let revealRadius = 0;
+    if (firstWave) {
+      revealRadius = firstWave.radius - REVEAL_OFFSET;
+    }
+
+    // The zoom intro is driven by the first wave instead. Text particles each
+    // play their own slice of the intro/outro timeline.
+    const style = config.introStyle;
+    const entering = !introComplete && !skipIntro && style !== "zoom";
+    const leaving = outroStart !== null && !config.reducedMotion;
+    const spread = STAGE_SPREAD[style];
+    const introE = entering ? introProgress() : 1;
+    const outroE = leaving ? outroProgress() : 0;
+    const stageOrder = entering || leaving ? createStageOrder() : null;
+
+    // Eased morph progress; targets slide from morphX/Y to base + jitter
+    let morphT = 1;
+    let morphE = 1;
+    if (morphing) {
+      morphT = clamp((accumulatedTime - morphStart) / Math.max(1, config.morphDuration), 0, 1);
+      morphE = easeOutCubic(morphT);
+    }
+
+    updateLocalPointers(zoom);
+    const ctx: ForceContext = { particles, width, height, time: accumulatedTime, delta };
+    for (const force of forces) force.begin?.(ctx);
+    dust.begin(ctx);
+
+    if (config.collisions) resolveCollisions();
+
+    const {
+      kind, x, y, vx, vy, baseX, baseY, jitterX, jitterY,
+      friction, mass, activation, morphX, morphY, stageX, stageY, wave,
+    } = particles;
+
+    for (let i = 0; i < particles.count; i++) {
+      if (kind[i] & DISSOLVING) {
+        activation[i] = Math.min(activation[i], 1 - morphT);
+      }
+
+      if (kind[i] === KIND_DUST || kind[i] & DISSOLVING) {
+        // very slow drift
+        x[i] += (rng.next() - 0.5) * 0.1;
+        y[i] += (rng.next() - 0.5) * 0.1;
+
+        const bit = kindBit(kind[i]);
+        for (const force of forces) {
+          if (force.targets & bit) force.apply(i, ctx);
+        }
+        const isDust = kind[i] === KIND_DUST;
+        if (isDust) dust.steer(i, ctx);
+
+        // Apply friction to dust
+        vx[i] *= friction[i];
+        vy[i] *= friction[i];
+        x[i] += vx[i];
+        y[i] += vy[i];
+
+        // Dissolving particles are gone soon anyway, so they just wrap
+        if (isDust) dust.confine(i, ctx);
+        else wrapToField(particles, i, width, height);
+        continue;
+      }
+
+      const isText = kind[i] === KIND_TEXT;
+      wave[i] = 0;
+      const bit = kindBit(kind[i]);
+      for (const force of forces) {
+        if (force.targets & bit) force.apply(i, ctx);
+      }
+
+      let targetX = baseX[i] + jitterX[i];
+      let targetY = baseY[i] + jitterY[i];
+
+      // Share of the intro played (1 when done) and of the outro (0 when not started)
+      let enter = 1;
+      let leave = 0;
+      if (isText && stageOrder) {
+        const start = stageOrder(i) * spread;
+        if (entering) enter = clamp((introE - start) / (1 - spread), 0, 1);
+        if (leaving) leave = clamp((outroE - start) / (1 - spread), 0, 1);
+        // Falling accelerates like gravity; the rest follow the easing as is
+        const inT = style === "fall" ? enter * enter : enter;
+        const outT = style === "fall" ? leave * leave : leave;
+        targetX = lerp(stageX[i], lerp(targetX, stageX[i], outT), inT);
+        targetY = lerp(stageY[i], lerp(targetY, stageY[i], outT), inT);
+      }
+      if (morphing) {
+        targetX = lerp(morphX[i], targetX, morphE);
+        targetY = lerp(morphY[i], targetY, morphE);
+        // Particles spawned for the morph fade in on the way
+        activation[i] = Math.max(activation[i], morphE);
+      }
+
+      const springAccel = returnStrength / mass[i];
+      vx[i] += (targetX - x[i]) * springAccel;
+      vy[i] += (targetY - y[i]) * springAccel;
+
+      vx[i] *= friction[i];
+      vy[i] *= friction[i];
+
+      x[i] += vx[i];
+      y[i] += vy[i];
+
+      if (isText) {
+        if (skipIntro) {
+          activation[i] = 1;
+        } else if (entering) {
+          // Falling text is already out of view, so it can stay lit
+          activation[i] = style === "fall" ? 1 : enter;
+        } else if (style === "zoom" && activation[i] < 1 && firstWave) {
+          const d = Math.hypot(baseX[i] - firstWave.x, baseY[i] - firstWave.y);
+          const bandIn = revealRadius;
+          const bandOut = revealRadius + REVEAL_WIDTH;
+          if (d < bandIn) {
+            activation[i] = 1;
+          } else if (d < bandOut) {
+            const tReveal = 1 - (d - bandIn) / REVEAL_WIDTH;
+            activation[i] = Math.max(activation[i], tReveal);
+          }
+        }
+        if (leave > 0 && style !== "fall") activation[i] = Math.min(activation[i], 1 - leave);
+      }
+    }
+
+    if (morphing && morphT >= 1) {
+      morphing = false;
+      removeDissolving(particles);
+    }
+  }
+
+  // Rebuild the field for a new mask size while keeping the clock, waves and
+  // intro progress, so a resize doesn't replay the whole animation.
+  function resize(nextMask: Mask) {
+    const scale = Math.hypot(nextMask.width, nextMask.height) / Math.max(1, Math.hypot(width, height));
+    mask = nextMask;
+    width = mask.width;
+    height = mask.height;
+    seedParticles();
+
+    for (const w of waves) {
+      w.radius *= scale;
+      w.x *= scale;
+      w.y *= scale;
+    }
+    if (introComplete) {
+      particles.activation.fill(1, 0, particles.count);
+    } else if (!introSkipped() && config.introStyle !== "zoom") {
+      stageText(true);
+    }
+    if (outroStart !== null) stageText(false);
+  }
+
+  // Pair the current text and background particles with targets sampled from
+  // the new mask. Leftovers dissolve like dust, missing ones fly in from the
+  // nearest edge. Dust is kept as is.
+  function morphTo(nextMask: Mask) {
+    // Staged intros and morphs both steer targets, so the intro gives way
+    if (config.introStyle !== "zoom") finishIntro();
+    mask = nextMask;
+    width = mask.width;
+    height = mask.height;
+
+    if (!incoming) incoming = createParticleStore(particles.capacity);
+    const next = incoming;
+    sampleMask(next);
+
+    const kept = createParticleStore(particles.count + next.count);
+    for (const k of [KIND_TEXT, KIND_BACKGROUND]) {
+      const oldIdx: number[] = [];
+      const newIdx: number[] = [];
+      for (let i = 0; i < particles.count; i++) if (particles.kind[i] === k) oldIdx.push(i);
+      for (let i = 0; i < next.count; i++) if (next.kind[i] === k) newIdx.push(i);
+
+      const from = orderForMorph(particles, oldIdx, false, config.morphStrategy, rng);
+      const to = orderForMorph(next, newIdx, true, config.morphStrategy, rng);
+
+      // Spread the pairing evenly so surplus or shortfall doesn't all end up
+      // in one region of the ordering.
+      const used = new Uint8Array(from.length);
+      for (let n = 0; n < to.length; n++) {
+        const j = to[n];
+        const src = from.length > 0 ? Math.floor((n * from.length) / to.length) : -1;
+        const p = addParticle(kept, k);
+
+        if (src >= 0 && !used[src]) {
+          used[src] = 1;
+          const i = from[src];
+          copyParticle(particles, i, kept, p);
+          kept.morphX[p] = particles.x[i];
+          kept.morphY[p] = particles.y[i];
+        } else {
+          copyParticle(next, j, kept, p);
+          const spawn = edgeSpawnPoint(
+            next.baseX[j] + next.jitterX[j],
+            next.baseY[j] + next.jitterY[j],
+            width,
+            height,
+            MORPH_EDGE_MARGIN
+          );
+          kept.x[p] = kept.prevX[p] = kept.morphX[p] = spawn.x;
+          kept.y[p] = kept.prevY[p] = kept.morphY[p] = spawn.y;
+          kept.activation[p] = 0;
+        }
+
+        // Take over the new target and wave geometry
+        kept.baseX[p] = next.baseX[j];
+        kept.baseY[p] = next.baseY[j];
+        kept.jitterX[p] = next.jitterX[j];
+        kept.jitterY[p] = next.jitterY[j];
+        kept.dist[p] = next.dist[j];
+        kept.brightness[p] = next.brightness[j];
+      }
+
+      for (let src = 0; src < from.length; src++) {
+        if (used[src]) continue;
+        const i = from[src];
+        const p = addParticle(kept, k | DISSOLVING);
+        copyParticle(particles, i, kept, p);
+        kept.kind[p] = k | DISSOLVING;
+        const a = rng.next() * Math.PI * 2;
+        kept.vx[p] += Math.cos(a) * DISSOLVE_KICK;
+        kept.vy[p] += Math.sin(a) * DISSOLVE_KICK;
+      }
+    }
+
+    // Dust and particles still dissolving from an earlier morph carry over
+    for (let i = 0; i < particles.count; i++) {
+      const k = particles.kind[i];
+      if (k === KIND_TEXT || k === KIND_BACKGROUND) continue;
+      copyParticle(particles, i, kept, addParticle(kept, k));
+    }
+
+    clearParticles(particles);
+    for (let i = 0; i < kept.count; i++) {
+      copyParticle(kept, i, particles, addParticle(particles, kept.kind[i]));
+    }
+
+    morphStart = accumulatedTime;
+    morphing = true;
+  }
+
+  function startOutro() {
+    if (outroStart !== null) return;
+    if (config.introStyle !== "zoom") finishIntro();
+    outroStart = accumulatedTime;
+    stageText(false);
+  }
+
+  buildForces();
+  seedParticles();
+  if (!introSkipped() && config.introStyle !== "zoom") stageText(true);
+
+  return {
+    get width() {
+      return width;
+    },
+    get height() {
+      return height;
+    },
+    particles,
+    waves,
+    step,
+    setConfig: (patch) => {
+      const prev = config;
+      config = { ...config, ...patch };
+      if (!sameForces(config.forces, prev.forces)) buildForces();
+      if (DUST_KEYS.some((key) => config[key] !== prev[key])) dust = createDustBehavior(config, waves, rng);
+      // Waves already on their way out are motion too
+      if (config.reducedMotion) waves.length = 0;
+    },
+    getConfig: () => config,
+    setPointers: (next) => {
+      pointers = next;
+    },
+    getZoom,
+    getTime: () => accumulatedTime,
+    getWaveOrigin: () => waveOrigin,
+    getTextBounds: () => textBounds,
+    triggerWave,
+    emitWave,
+    takeEvents: () => {
+      const taken = events;
+      events = [];
+      return taken;
+    },
+    getStats: () => {
+      const stats = { text: 0, background: 0, dust: 0, dissolving: 0, cells: grid.cols * grid.rows };
+      for (let i = 0; i < particles.count; i++) {
+        const k = particles.kind[i];
+        if (k & DISSOLVING) stats.dissolving++;
+        else if (k === KIND_TEXT) stats.text++;
+        else if (k === KIND_DUST) stats.dust++;
+        else stats.background++;
+      }
+      return stats;
+    },
+    resize,
+    morphTo,
+    startOutro,
+  };
+}
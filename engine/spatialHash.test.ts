@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { addParticle, createParticleStore, KIND_TEXT } from "./particles";
+import { buildSpatialHash, cellColumn, cellRow, createSpatialHash, SpatialHash } from "./spatialHash";
+
+function storeWith(points: [number, number][]) {
+  const store = createParticleStore(2);
+  for (const [x, y] of points) {
+    const i = addParticle(store, KIND_TEXT);
+    store.x[i] = x;
+    store.y[i] = y;
+  }
+  return store;
+}
+
+// Particle indices filed under the cell at (x, y)
+function cellAt(hash: SpatialHash, x: number, y: number) {
+  const c = cellRow(hash, y) * hash.cols + cellColumn(hash, x);
+  return Array.from(hash.entries.subarray(hash.cellStart[c], hash.cellStart[c + 1])).sort();
+}
+
+describe("buildSpatialHash", () => {
+  it("files every particle under the cell it sits in", () => {
+    const store = storeWith([[0, 0], [5, 5], [25, 0], [-25, -25], [0, 0]]);
+    const hash = createSpatialHash(20);
+    buildSpatialHash(hash, store, 100, 100);
+
+    expect(cellAt(hash, 1, 1)).toEqual([0, 1, 4]);
+    expect(cellAt(hash, 25, 0)).toEqual([2]);
+    expect(cellAt(hash, -25, -25)).toEqual([3]);
+    expect(hash.cellStart[hash.cols * hash.rows]).toBe(store.count);
+  });
+
+  it("clamps particles outside the grid into the border cells", () => {
+    const store = storeWith([[-10000, 0], [10000, 10000]]);
+    const hash = createSpatialHash(20);
+    buildSpatialHash(hash, store, 100, 100);
+
+    expect(cellColumn(hash, -10000)).toBe(0);
+    expect(cellRow(hash, 10000)).toBe(hash.rows - 1);
+    expect(cellAt(hash, -10000, 0)).toEqual([0]);
+    expect(cellAt(hash, 10000, 10000)).toEqual([1]);
+  });
+
+  it("reuses its buffers unless the area or capacity grows", () => {
+    const store = storeWith([[0, 0]]);
+    const hash = createSpatialHash(20);
+    buildSpatialHash(hash, store, 200, 200);
+    const { cellStart, entries } = hash;
+
+    buildSpatialHash(hash, store, 100, 100);
+    expect(hash.cellStart).toBe(cellStart);
+    expect(hash.entries).toBe(entries);
+
+    for (let i = 0; i < 10; i++) addParticle(store, KIND_TEXT);
+    buildSpatialHash(hash, store, 400, 400);
+    expect(hash.cellStart).not.toBe(cellStart);
+    expect(hash.entries).not.toBe(entries);
+    expect(hash.entries.length).toBeGreaterThanOrEqual(store.count);
+  });
+});
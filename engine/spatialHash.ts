@@ -0,0 +1,94 @@
+import { ParticleStore } from "./particles";
+
+/**
+ * Uniform grid over the simulation area, rebuilt every step with a counting
+ * sort so particle indices end up grouped by cell. Buffers are only
+ * reallocated when the area or particle capacity grows. Particles outside the
+ * grid are clamped into the border cells, which keeps lookups correct.
+ */
+export type SpatialHash = {
+  cellSize: number;
+  cols: number;
+  rows: number;
+  originX: number;
+  originY: number;
+  cellStart: Int32Array; // cells + 1 offsets into `entries`
+  cursor: Int32Array;
+  entries: Int32Array; // particle indices sorted by cell
+  cellOf: Int32Array; // cell of each particle at build time
+};
+
+// Extra cells around the area for particles knocked off screen
+const MARGIN_CELLS = 4;
+
+export function createSpatialHash(cellSize: number): SpatialHash {
+  return {
+    cellSize,
+    cols: 0,
+    rows: 0,
+    originX: 0,
+    originY: 0,
+    cellStart: new Int32Array(1),
+    cursor: new Int32Array(0),
+    entries: new Int32Array(0),
+    cellOf: new Int32Array(0),
+  };
+}
+
+export function cellColumn(hash: SpatialHash, x: number) {
+  const c = Math.floor((x - hash.originX) / hash.cellSize);
+  return c < 0 ? 0 : c >= hash.cols ? hash.cols - 1 : c;
+}
+
+export function cellRow(hash: SpatialHash, y: number) {
+  const r = Math.floor((y - hash.originY) / hash.cellSize);
+  return r < 0 ? 0 : r >= hash.rows ? hash.rows - 1 : r;
+}
+
+// `width`/`height` describe the area centered on the origin that particles live in.
+export function buildSpatialHash(
+  hash: SpatialHash,
+  store: ParticleStore,
+  width: number,
+  height: number
+) {
+  const { cellSize } = hash;
+  const cols = Math.ceil(width / cellSize) + MARGIN_CELLS * 2;
+  const rows = Math.ceil(height / cellSize) + MARGIN_CELLS * 2;
+  const cells = cols * rows;
+
+  if (cells + 1 > hash.cellStart.length) {
+    hash.cellStart = new Int32Array(cells + 1);
+    hash.cursor = new Int32Array(cells);
+  }
+  if (store.capacity > hash.entries.length) {
+    hash.entries = new Int32Array(store.capacity);
+    hash.cellOf = new Int32Array(store.capacity);
+  }
+
+  hash.cols = cols;
+  hash.rows = rows;
+  hash.originX = -width / 2 - MARGIN_CELLS * cellSize;
+  hash.originY = -height / 2 - MARGIN_CELLS * cellSize;
+
+  const { cellStart, cursor, entries, cellOf } = hash;
+  cellStart.fill(0, 0, cells + 1);
+
+  // Count particles per cell
+  for (let i = 0; i < store.count; i++) {
+    const c = cellRow(hash, store.y[i]) * cols + cellColumn(hash, store.x[i]);
+    cellOf[i] = c;
+    cellStart[c + 1]++;
+  }
+
+  // Prefix sum into start offsets
+  for (let c = 0; c < cells; c++) {
+    cellStart[c + 1] += cellStart[c];
+    cursor[c] = cellStart[c];
+  }
+
+  // Scatter indices into their cell's slot range
+  for (let i = 0; i < store.count; i++) {
+    entries[cursor[cellOf[i]]++] = i;
+  }
+}
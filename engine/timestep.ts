@@ -0,0 +1,38 @@
+import { Simulation } from "./simulation";
+
+export const FIXED_STEP_MS = 1000 / 60;
+// Longest frame we try to catch up on, e.g. after the tab was backgrounded
+export const MAX_FRAME_MS = 250;
+
+export type FixedStepper = {
+  // Feed the real frame delta; returns the interpolation factor (0..1)
+  // between the previous and current simulation state for rendering.
+  advance: (frameDelta: number) => number;
+  reset: () => void;
+};
+
+/**
+ * Runs the simulation in fixed substeps with an accumulator so the animation
+ * looks the same regardless of display refresh rate.
+ */
+export function createFixedStepper(
+  sim: Simulation,
+  stepMs = FIXED_STEP_MS,
+  maxFrameMs = MAX_FRAME_MS
+): FixedStepper {
+  let accumulator = 0;
+
+  return {
+    advance: (frameDelta) => {
+      accumulator += Math.min(Math.max(0, frameDelta), maxFrameMs);
+      while (accumulator >= stepMs) {
+        sim.step(stepMs);
+        accumulator -= stepMs;
+      }
+      return accumulator / stepMs;
+    },
+    reset: () => {
+      accumulator = 0;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+// A rasterized particle source. `data` is RGBA laid out like ImageData.data,
+// so a mask can come from a canvas in the browser or be built by hand in Node.
+export type Mask = {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+  letterCount: number;
+  // When set, alpha is a 0..255 weight scaling particle density and
+  // brightness instead of a hard on/off threshold at 128.
+  weighted?: boolean;
+};
+
+// Waves track their own radius instead of calculating it from time, and
+// keep the settings they were spawned with.
+export type Wave = {
+  x: number; // origin, in field coordinates (0, 0 is the field center)
+  y: number;
+  radius: number;
+  speed: number; // px per ms
+  strength: number; // radial kick at the crest
+  thickness: number;
+};
+
+// Things that happened during a step, collected for whoever drives the
+// simulation. Wave origins are in canvas pixels, like triggerWave.
+export type SimulationEvent =
+  | { type: "wave"; x: number; y: number; triggered: boolean }
+  | { type: "introComplete" }
+  | { type: "outroComplete" };
+
+// One active mouse, pen or touch contact.
+export type Pointer = {
+  id: number;
+  x: number;
+  y: number;
+  pressure: number; // 0..1, 0.5 when the device doesn't report it
+  pressed: boolean; // button or contact down, as opposed to hovering
+  vx: number; // px per ms, for flinging
+  vy: number;
+};
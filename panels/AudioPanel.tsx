@@ -0,0 +1,334 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Config } from "../engine/config";
+import { paramSpec } from "../engine/configSchema";
+import {
+  applyAudioMappings,
+  AUDIO_BANDS,
+  AUDIO_TARGETS,
+  AudioBand,
+  AudioMapping,
+  AudioSettings,
+  BandEnergies,
+  createBeatDetector,
+  DEFAULT_AUDIO_SETTINGS,
+} from "../engine/audio";
+import { AudioInput, createFileInput, createMicInput } from "../render/audioInput";
+import { ParticleHost } from "../render/particleHost";
+import PanelSection from "./PanelSection";
+
+// How often the audio level meters re-render
+const AUDIO_METER_MS = 100;
+
+export type AudioSource = "off" | "file" | "mic";
+
+// Audio input drives beat waves and modulates settings while active
+export type AudioState = {
+  source: AudioSource;
+  setSource: (source: AudioSource) => void;
+  file: { name: string; url: string } | null;
+  // Switches to the file
+  loadFile: (file: File) => void;
+  playing: boolean;
+  togglePlayback: () => void;
+  error: string;
+  // Band levels for the meters, or null while nothing is listening
+  levels: BandEnergies | null;
+  settings: AudioSettings;
+  setSettings: (update: (prev: AudioSettings) => AudioSettings) => void;
+};
+
+/**
+ * Analyse the chosen source every frame and push the modulated config
+ * straight to the host; React only hears about the meter levels. `getConfig`
+ * returns the config the host would otherwise run with.
+ */
+export function useAudioInput(getHost: () => ParticleHost | null, getConfig: () => Config): AudioState {
+  const [source, setSource] = useState<AudioSource>("off");
+  const [file, setFile] = useState<{ name: string; url: string } | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [error, setError] = useState("");
+  const [levels, setLevels] = useState<BandEnergies | null>(null);
+  const [settings, setSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const elementRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    if (source === "off" || (source === "file" && !file)) return;
+    let input: AudioInput | null = null;
+    let rafId = 0;
+    let cancelled = false;
+    let lastMeter = 0;
+    // What the host was last sent, so unchanged frames cost nothing
+    let lastSent: Config | null = null;
+    const detector = createBeatDetector(() => settingsRef.current.sensitivity);
+
+    const tick = (now: number) => {
+      const energies = input!.read();
+      const current = settingsRef.current;
+      const base = getConfig();
+      const host = getHost();
+      const beat = detector.push(energies.bass, now);
+      if (beat && current.beatWaves && !base.paused) host?.emitWave(current.beatStrength);
+      const mapped = applyAudioMappings(base, current.mappings, energies);
+      const changed =
+        !lastSent ||
+        (Object.keys(mapped) as (keyof Config)[]).some((key) => mapped[key] !== lastSent![key]);
+      if (changed && host) {
+        host.setConfig(mapped);
+        lastSent = mapped;
+      }
+      if (now - lastMeter > AUDIO_METER_MS) {
+        lastMeter = now;
+        setLevels(energies);
+      }
+      rafId = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      try {
+        if (source === "mic") {
+          input = await createMicInput();
+        } else {
+          // A media element can only be attached to one audio context
+          const audio = new Audio(file!.url);
+          audio.loop = true;
+          audio.onplay = () => setPlaying(true);
+          audio.onpause = () => setPlaying(false);
+          elementRef.current = audio;
+          input = createFileInput(audio);
+          await audio.play();
+        }
+        if (cancelled) {
+          input.dispose();
+          return;
+        }
+        setError("");
+        rafId = requestAnimationFrame(tick);
+      } catch (err) {
+        input?.dispose();
+        if (cancelled) return;
+        setError(`Audio unavailable: ${(err as Error).message}`);
+        setSource("off");
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(rafId);
+      input?.dispose();
+      elementRef.current = null;
+      setPlaying(false);
+      setLevels(null);
+      getHost()?.setConfig(getConfig());
+    };
+  }, [source, file]);
+
+  // Let go of a file's object URL once it's replaced or the panel state goes away
+  useEffect(() => {
+    if (!file) return;
+    return () => URL.revokeObjectURL(file.url);
+  }, [file]);
+
+  const loadFile = (next: File) => {
+    setFile({ name: next.name, url: URL.createObjectURL(next) });
+    setSource("file");
+  };
+
+  const togglePlayback = () => {
+    const audio = elementRef.current;
+    if (audio?.paused) audio.play();
+    else audio?.pause();
+  };
+
+  return { source, setSource, file, loadFile, playing, togglePlayback, error, levels, settings, setSettings };
+}
+
+export default function AudioPanel({ audio }: { audio: AudioState }) {
+  const { settings, setSettings, levels } = audio;
+
+  const updateMapping = (index: number, patch: Partial<AudioMapping>) => {
+    setSettings((prev) => ({
+      ...prev,
+      mappings: prev.mappings.map((m, i) => (i === index ? { ...m, ...patch } : m)),
+    }));
+  };
+
+  return (
+    <PanelSection title="Audio">
+      <div className="flex gap-2">
+        {(["off", "mic"] as const).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => audio.setSource(kind)}
+            className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors ${audio.source === kind ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+          >
+            {kind}
+          </button>
+        ))}
+        <button
+          onClick={() => audio.setSource("file")}
+          disabled={!audio.file}
+          className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors disabled:opacity-30 ${audio.source === "file" ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+        >
+          File
+        </button>
+        <label className="bg-fg/10 hover:bg-fg/20 px-2 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors cursor-pointer">
+          Load
+          <input
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) audio.loadFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {audio.source === "file" && audio.file && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={audio.togglePlayback}
+            className="bg-fg/10 hover:bg-fg/20 px-2 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+          >
+            {audio.playing ? "Pause" : "Play"}
+          </button>
+          <span className="text-fg/50 truncate">{audio.file.name}</span>
+        </div>
+      )}
+
+      {audio.error && <div className="text-[10px] text-red-300/80">{audio.error}</div>}
+
+      {levels && (
+        <div className="flex gap-2">
+          {AUDIO_BANDS.map(({ band, label }) => (
+            <div key={band} className="flex-1">
+              <div className="h-8 bg-fg/10 rounded relative overflow-hidden">
+                <div
+                  className="absolute bottom-0 left-0 right-0 bg-fg/50"
+                  style={{ height: `${Math.round(levels[band] * 100)}%` }}
+                />
+              </div>
+              <div className="text-fg/50 text-[10px] text-center">{label}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <label className="flex items-center justify-between cursor-pointer">
+        <span>Waves On Beats</span>
+        <input
+          type="checkbox"
+          checked={settings.beatWaves}
+          onChange={(e) => setSettings((prev) => ({ ...prev, beatWaves: e.target.checked }))}
+          className="accent-fg"
+        />
+      </label>
+
+      {settings.beatWaves && (
+        <>
+          <div>
+            <div className="flex justify-between mb-1">
+              <span>Beat Sensitivity</span>
+              <span className="text-fg/50">{settings.sensitivity.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              aria-label="Beat Sensitivity"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.sensitivity}
+              onChange={(e) => setSettings((prev) => ({ ...prev, sensitivity: parseFloat(e.target.value) }))}
+              className="w-full accent-fg h-1 bg-fg/20 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <span>Beat Wave Force</span>
+              <span className="text-fg/50">{settings.beatStrength.toFixed(1)}x</span>
+            </div>
+            <input
+              type="range"
+              aria-label="Beat Wave Force"
+              min="0.1"
+              max="5"
+              step="0.1"
+              value={settings.beatStrength}
+              onChange={(e) => setSettings((prev) => ({ ...prev, beatStrength: parseFloat(e.target.value) }))}
+              className="w-full accent-fg h-1 bg-fg/20 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        </>
+      )}
+
+      {settings.mappings.map((mapping, i) => (
+        <div key={i} className="space-y-1 p-2 rounded border border-fg/10">
+          <div className="flex gap-1">
+            <select
+              value={mapping.band}
+              aria-label="Audio band"
+              onChange={(e) => updateMapping(i, { band: e.target.value as AudioBand })}
+              className="flex-1 min-w-0 bg-fg/10 border border-fg/10 rounded px-1 py-1 focus:outline-none focus:border-fg/40"
+            >
+              {AUDIO_BANDS.map(({ band, label }) => (
+                <option key={band} value={band} className="bg-panel">
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={mapping.target}
+              aria-label="Driven setting"
+              onChange={(e) => updateMapping(i, { target: e.target.value as keyof Config })}
+              className="flex-1 min-w-0 bg-fg/10 border border-fg/10 rounded px-1 py-1 focus:outline-none focus:border-fg/40"
+            >
+              {AUDIO_TARGETS.map((target) => (
+                <option key={target} value={target} className="bg-panel">
+                  {paramSpec(target)?.label ?? target}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setSettings((prev) => ({ ...prev, mappings: prev.mappings.filter((_, j) => j !== i) }))}
+              className="text-fg/50 hover:text-fg px-1"
+              title="Remove mapping"
+            >
+              ×
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              aria-label="Mapping amount"
+              min="-1"
+              max="1"
+              step="0.05"
+              value={mapping.amount}
+              onChange={(e) => updateMapping(i, { amount: parseFloat(e.target.value) })}
+              className="flex-1 accent-fg h-1 bg-fg/20 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="text-fg/50 w-10 text-right">{mapping.amount.toFixed(2)}</span>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() =>
+          setSettings((prev) => ({
+            ...prev,
+            mappings: [...prev.mappings, { band: "bass", target: AUDIO_TARGETS[0], amount: 0.3 }],
+          }))
+        }
+        className="w-full bg-fg/10 hover:bg-fg/20 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+      >
+        Add Mapping
+      </button>
+    </PanelSection>
+  );
+}
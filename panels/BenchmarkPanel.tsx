@@ -0,0 +1,77 @@
+import React, { useState } from "react";
+import { BenchmarkResult } from "../engine/benchmark";
+import { ParticleHost } from "../render/particleHost";
+
+// Steps each run times
+const BENCHMARK_STEPS = 120;
+
+export type BenchmarkState = {
+  count: number;
+  setCount: (count: number) => void;
+  result: BenchmarkResult | null;
+  // Share of the running benchmark done so far, or null when none is running
+  progress: number | null;
+  error: string | null;
+  run: () => Promise<void>;
+};
+
+// Runs on the host's thread, so a worker host keeps the page responsive
+export function useBenchmark(getHost: () => ParticleHost | null): BenchmarkState {
+  const [count, setCount] = useState(20000);
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    const host = getHost();
+    if (!host || progress !== null) return;
+    setProgress(0);
+    setError(null);
+    try {
+      setResult(await host.benchmark(count, BENCHMARK_STEPS, (done, total) => setProgress(done / total)));
+    } catch (err) {
+      setError(`Benchmark failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return { count, setCount, result, progress, error, run };
+}
+
+export default function BenchmarkPanel({ benchmark }: { benchmark: BenchmarkState }) {
+  const { result, progress } = benchmark;
+  return (
+    <div>
+      <div className="flex justify-between mb-1">
+        <span>Benchmark</span>
+        <span className="text-fg/50">
+          {progress !== null
+            ? `${Math.round(progress * 100)}%`
+            : result
+              ? `${result.msPerStep.toFixed(2)} ms/step @ ${result.particles}`
+              : ""}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="1000"
+          step="1000"
+          value={benchmark.count}
+          aria-label="Benchmark particle count"
+          onChange={(e) => benchmark.setCount(Math.max(1000, Math.floor(Number(e.target.value) || 0)))}
+          className="flex-1 min-w-0 bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40"
+        />
+        <button
+          onClick={benchmark.run}
+          disabled={progress !== null}
+          className="bg-fg/10 hover:bg-fg/20 disabled:opacity-50 px-2 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          {progress !== null ? "Running" : "Run"}
+        </button>
+      </div>
+      {benchmark.error && <div className="mt-1 text-[10px] text-red-300/80">{benchmark.error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import React from "react";
+import { Config, DEFAULT_CONFIG } from "../engine/config";
+import { CONFIG_SCHEMA } from "../engine/configSchema";
+import ParamControl, { ParamValue } from "../ParamControl";
+import PanelSection from "./PanelSection";
+
+// Config updates chain off the latest value, like React's setState
+export type SetConfig = (update: (prev: Config) => Config) => void;
+
+// Settings edited by a group's custom controls, reset along with it
+const GROUP_EXTRA_KEYS: Record<string, (keyof Config)[]> = {
+  Colors: ["palette"],
+  Forces: ["forces"],
+  "Particle Looks": ["looks", "glyph"],
+};
+
+type ConfigGroupProps = {
+  group: string;
+  config: Config;
+  setConfig: SetConfig;
+  // Custom controls placed right below a field
+  after?: Partial<Record<keyof Config, React.ReactNode>>;
+  // Custom controls at the end of the group
+  footer?: React.ReactNode;
+};
+
+// A panel group generated from the schema
+export default function ConfigGroup({ group, config, setConfig, after = {}, footer = null }: ConfigGroupProps) {
+  const reset = () => {
+    const keys = [
+      ...CONFIG_SCHEMA.filter((spec) => spec.group === group).map((spec) => spec.key),
+      ...(GROUP_EXTRA_KEYS[group] ?? []),
+    ];
+    setConfig((prev) => ({ ...prev, ...Object.fromEntries(keys.map((key) => [key, DEFAULT_CONFIG[key]])) }));
+  };
+
+  // Generated controls only know their key, and schema fields all hold plain values
+  const change = (key: keyof Config, value: ParamValue) => setConfig((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <PanelSection title={group} onReset={reset}>
+      {CONFIG_SCHEMA.filter((spec) => spec.group === group && (!spec.visible || spec.visible(config))).map((spec) => (
+        <React.Fragment key={spec.key}>
+          <ParamControl
+            spec={spec}
+            value={config[spec.key] as ParamValue}
+            defaultValue={DEFAULT_CONFIG[spec.key] as ParamValue}
+            onChange={(value) => change(spec.key, value)}
+          />
+          {after[spec.key]}
+        </React.Fragment>
+      ))}
+
+      {footer}
+    </PanelSection>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from "react";
+import { OfflineRenderOptions, Recording, renderOffline, startRecording } from "../render/capture";
+import { downloadBlob } from "./download";
+import PanelSection from "./PanelSection";
+
+// Settings for offline renders; sizes are CSS pixels before `pixelRatio`
+type ExportSettings = {
+  width: number;
+  height: number;
+  pixelRatio: number;
+  fps: number;
+  start: number;
+  duration: number;
+};
+
+// Field, label and minimum; fields with a minimum below 1 step by halves
+const EXPORT_FIELDS: [keyof ExportSettings, string, number][] = [
+  ["width", "Width", 16],
+  ["height", "Height", 16],
+  ["pixelRatio", "Scale", 0.5],
+  ["fps", "FPS", 1],
+  ["start", "Start (s)", 0],
+  ["duration", "Length (s)", 0],
+];
+
+// What an offline render draws, as the live host has it
+export type ExportScene = Pick<OfflineRenderOptions, "text" | "image" | "imageOptions" | "sprite" | "fonts" | "config">;
+
+type ExportOptions = {
+  // The live canvas, for recording
+  getCanvas: () => HTMLCanvasElement | null;
+  getScene: () => ExportScene;
+  // The shown text, to name files after
+  text: string;
+  // Changes whenever the host swaps its canvas
+  backend: string;
+};
+
+export type ExportState = {
+  recording: Recording | null;
+  recordSeconds: number;
+  toggleRecording: () => void;
+  settings: ExportSettings;
+  setSetting: (key: keyof ExportSettings, value: number) => void;
+  // Progress or outcome of the last export
+  status: string;
+  rendering: boolean;
+  render: (still: boolean) => Promise<void>;
+  cancel: () => void;
+};
+
+// File name friendly version of the shown text
+function exportName(text: string) {
+  const slug = text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `pluribus-${slug || "export"}`;
+}
+
+export function useExport({ getCanvas, getScene, text, backend }: ExportOptions): ExportState {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [recordSeconds, setRecordSeconds] = useState(0);
+  const [settings, setSettings] = useState<ExportSettings>({
+    width: 1920,
+    height: 1080,
+    pixelRatio: 1,
+    fps: 30,
+    start: 0,
+    duration: 5,
+  });
+  const [status, setStatus] = useState("");
+  const [rendering, setRendering] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Tick the recording clock
+  useEffect(() => {
+    if (!recording) return;
+    const started = performance.now();
+    setRecordSeconds(0);
+    const timer = setInterval(() => setRecordSeconds(Math.floor((performance.now() - started) / 1000)), 500);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Switching backends replaces the canvas, which would leave the recorder
+  // capturing a frozen frame
+  useEffect(() => {
+    if (recording) finishRecording();
+  }, [backend]);
+
+  const finishRecording = async () => {
+    if (!recording) return;
+    setRecording(null);
+    downloadBlob(await recording.stop(), `${exportName(text)}.webm`);
+  };
+
+  const toggleRecording = () => {
+    if (recording) {
+      finishRecording();
+      return;
+    }
+    const canvas = getCanvas();
+    const next = canvas ? startRecording(canvas) : null;
+    if (next) setRecording(next);
+    else setStatus("Recording isn't supported in this browser");
+  };
+
+  const render = async (still: boolean) => {
+    const { width, height, pixelRatio, fps, start, duration } = settings;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRendering(true);
+    setStatus("Rendering…");
+    try {
+      const blob = await renderOffline({
+        ...getScene(),
+        view: { width, height, pixelRatio },
+        fps,
+        start,
+        duration: still ? 0 : duration,
+        signal: controller.signal,
+        onProgress: (frame, total) => setStatus(`Rendering frame ${frame} / ${total}`),
+      });
+      downloadBlob(blob, `${exportName(text)}.${still ? "png" : "zip"}`);
+      setStatus(still ? "Saved still" : "Saved PNG sequence");
+    } catch (err) {
+      setStatus(controller.signal.aborted ? "Render cancelled" : `Render failed: ${(err as Error).message}`);
+    } finally {
+      abortRef.current = null;
+      setRendering(false);
+    }
+  };
+
+  return {
+    recording,
+    recordSeconds,
+    toggleRecording,
+    settings,
+    setSetting: (key, value) => setSettings((prev) => ({ ...prev, [key]: value })),
+    status,
+    rendering,
+    render,
+    cancel: () => abortRef.current?.abort(),
+  };
+}
+
+export default function ExportPanel({ exporter }: { exporter: ExportState }) {
+  const { recording, recordSeconds, rendering } = exporter;
+  return (
+    <PanelSection title="Export">
+      <button
+        onClick={exporter.toggleRecording}
+        className={`w-full py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors ${recording ? "bg-red-500/40 hover:bg-red-500/50" : "bg-fg/10 hover:bg-fg/20"}`}
+      >
+        {recording
+          ? `Stop Recording ${Math.floor(recordSeconds / 60)}:${String(recordSeconds % 60).padStart(2, "0")}`
+          : "Record WebM"}
+      </button>
+
+      <div className="grid grid-cols-3 gap-2">
+        {EXPORT_FIELDS.map(([key, label, min]) => (
+          <label key={key} className="block">
+            <span className="text-fg/50 text-[10px]">{label}</span>
+            <input
+              type="number"
+              min={min}
+              step={min < 1 ? 0.5 : 1}
+              value={exporter.settings[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value >= min) exporter.setSetting(key, value);
+              }}
+              className="w-full bg-fg/10 border border-fg/10 rounded px-1 py-1 focus:outline-none focus:border-fg/40"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => exporter.render(true)}
+          disabled={rendering}
+          className="flex-1 bg-fg/10 hover:bg-fg/20 disabled:opacity-30 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          Still PNG
+        </button>
+        <button
+          onClick={() => exporter.render(false)}
+          disabled={rendering}
+          className="flex-1 bg-fg/10 hover:bg-fg/20 disabled:opacity-30 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          PNG Sequence
+        </button>
+        {rendering && (
+          <button
+            onClick={exporter.cancel}
+            className="bg-fg/10 hover:bg-fg/20 px-2 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {exporter.status && <div className="text-[10px] text-fg/50">{exporter.status}</div>}
+    </PanelSection>
+  );
+}
@@ -0,0 +1,270 @@
+import React, { useState } from "react";
+import { Config } from "../engine/config";
+import { defaultForce, FORCE_PARAMS, FORCE_TARGETS, FORCE_TYPES, ForceSettings, ForceTarget, ForceType } from "../engine/forces";
+import { DEFAULT_LOOKS, LOOK_CLASSES, LOOK_PARAMS, LookClass, ParticleLook } from "../engine/looks";
+import { randomSeed } from "../engine/random";
+import { loadImageFile } from "../render/imageMask";
+import ParamControl from "../ParamControl";
+import { SetConfig } from "./ConfigGroup";
+
+// Custom controls that sit inside the schema generated groups.
+
+type EditorProps = {
+  config: Config;
+  setConfig: SetConfig;
+};
+
+export function SeedControl({ config, setConfig }: EditorProps) {
+  const setSeed = (seed: number) => setConfig((prev) => ({ ...prev, seed }));
+  return (
+    <div>
+      <div className="flex justify-between mb-1">
+        <span>Seed</span>
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="0"
+          step="1"
+          value={config.seed}
+          aria-label="Seed"
+          onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          className="flex-1 min-w-0 bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40"
+        />
+        <button
+          onClick={() => setSeed(randomSeed())}
+          className="bg-fg/10 hover:bg-fg/20 px-2 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          Shuffle
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function PaletteEditor({ config, setConfig }: EditorProps) {
+  const setPalette = (palette: string[]) => setConfig((prev) => ({ ...prev, palette }));
+  return (
+    <div className="flex flex-wrap gap-1 items-center">
+      {config.palette.map((color, i) => (
+        <div key={i} className="flex items-center">
+          <input
+            type="color"
+            value={color}
+            aria-label={`Palette color ${i + 1}`}
+            onChange={(e) => setPalette(config.palette.map((c, j) => (j === i ? e.target.value : c)))}
+            className="w-6 h-6 bg-transparent cursor-pointer"
+          />
+          {/* The palette keeps at least one color */}
+          {config.palette.length > 1 && (
+            <button
+              onClick={() => setPalette(config.palette.filter((_, j) => j !== i))}
+              className="text-fg/50 hover:text-fg px-0.5"
+              title="Remove color"
+              aria-label={`Remove palette color ${i + 1}`}
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => setPalette([...config.palette, "#ffffff"])}
+        className="bg-fg/10 hover:bg-fg/20 w-6 h-6 rounded font-bold transition-colors"
+        title="Add color"
+        aria-label="Add palette color"
+      >
+        +
+      </button>
+    </div>
+  );
+}
+
+export function ForcesEditor({ config, setConfig }: EditorProps) {
+  const setForces = (forces: ForceSettings[]) => setConfig((prev) => ({ ...prev, forces }));
+  const updateForce = (index: number, patch: Partial<ForceSettings>) => {
+    setConfig((prev) => ({ ...prev, forces: prev.forces.map((f, i) => (i === index ? { ...f, ...patch } : f)) }));
+  };
+
+  return (
+    <>
+      {config.forces.map((force, i) => {
+        const label = FORCE_TYPES.find((t) => t.type === force.type)?.label ?? force.type;
+        const defaults = defaultForce(force.type);
+        return (
+          <div key={i} className="space-y-2 p-2 rounded border border-fg/10">
+            <div className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={force.enabled}
+                aria-label={`Enable ${label}`}
+                onChange={(e) => updateForce(i, { enabled: e.target.checked })}
+                className="accent-fg"
+              />
+              <span className="flex-1">{label}</span>
+              <select
+                value={force.target}
+                aria-label={`${label} pushes`}
+                onChange={(e) => updateForce(i, { target: e.target.value as ForceTarget })}
+                className="min-w-0 bg-fg/10 border border-fg/10 rounded px-1 py-1 focus:outline-none focus:border-fg/40"
+              >
+                {FORCE_TARGETS.map(({ target, label }) => (
+                  <option key={target} value={target} className="bg-panel">
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setForces(config.forces.filter((_, j) => j !== i))}
+                className="text-fg/50 hover:text-fg px-1"
+                title="Remove force"
+                aria-label={`Remove ${label}`}
+              >
+                ×
+              </button>
+            </div>
+            {force.enabled &&
+              FORCE_PARAMS[force.type].map((spec) => (
+                <React.Fragment key={spec.key}>
+                  <ParamControl
+                    spec={spec}
+                    value={force[spec.key] as number}
+                    defaultValue={defaults[spec.key] as number}
+                    onChange={(value) => updateForce(i, { [spec.key]: value })}
+                  />
+                </React.Fragment>
+              ))}
+          </div>
+        );
+      })}
+
+      <select
+        value=""
+        aria-label="Add force"
+        onChange={(e) => setForces([...config.forces, defaultForce(e.target.value as ForceType)])}
+        className="w-full bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40"
+      >
+        <option value="" disabled className="bg-panel">Add force…</option>
+        {FORCE_TYPES.map(({ type, label }) => (
+          <option key={type} value={type} className="bg-panel">
+            {label}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
+
+// Picture for the "image" particle shape
+export type Sprite = {
+  image: ImageBitmap | null;
+  error: string;
+  load: (file: File) => Promise<void>;
+  clear: () => void;
+};
+
+export function useSprite(): Sprite {
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [error, setError] = useState("");
+
+  const load = async (file: File) => {
+    try {
+      setImage(await loadImageFile(file));
+      setError("");
+    } catch (err) {
+      setError(`Could not load "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return { image, error, load, clear: () => setImage(null) };
+}
+
+export function LooksEditor({ config, setConfig, sprite }: EditorProps & { sprite: Sprite }) {
+  const updateLook = (look: LookClass, patch: Partial<ParticleLook>) => {
+    setConfig((prev) => ({ ...prev, looks: { ...prev.looks, [look]: { ...prev.looks[look], ...patch } } }));
+  };
+
+  return (
+    <>
+      {LOOK_CLASSES.map(({ look, label }) => (
+        <div key={look} className="space-y-2 p-2 rounded border border-fg/10">
+          <span>{label}</span>
+          {LOOK_PARAMS.map((spec) => (
+            <React.Fragment key={spec.key}>
+              <ParamControl
+                spec={spec}
+                value={config.looks[look][spec.key]}
+                defaultValue={DEFAULT_LOOKS[look][spec.key]}
+                onChange={(value) => updateLook(look, { [spec.key]: value })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      ))}
+
+      <label className="flex items-center justify-between gap-2">
+        <span>Glyph</span>
+        <input
+          type="text"
+          value={config.glyph}
+          onChange={(e) => {
+            const glyph = e.target.value;
+            setConfig((prev) => ({ ...prev, glyph }));
+          }}
+          className="w-16 bg-fg/10 border border-fg/10 rounded px-2 py-1 text-center focus:outline-none focus:border-fg/40"
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-2">
+        <span>Image</span>
+        <div className="flex gap-1">
+          {sprite.image && (
+            <button
+              onClick={sprite.clear}
+              className="bg-fg/10 hover:bg-fg/20 px-2 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+            >
+              Clear
+            </button>
+          )}
+          <label className="bg-fg/10 hover:bg-fg/20 px-2 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors cursor-pointer">
+            Load
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/svg+xml,.svg"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) sprite.load(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+      {sprite.error && <div className="text-[10px] text-red-300/80">{sprite.error}</div>}
+    </>
+  );
+}
+
+export type PanelTheme = "dark" | "light";
+
+export function ThemeControl({ theme, onChange }: { theme: PanelTheme; onChange: (theme: PanelTheme) => void }) {
+  return (
+    <div>
+      <div className="flex justify-between mb-1">
+        <span>Panel Theme</span>
+      </div>
+      <div className="flex gap-2">
+        {(["dark", "light"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors ${theme === option ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
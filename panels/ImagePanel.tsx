@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_IMAGE_MASK_OPTIONS,
+  IMAGE_THRESHOLD_PARAM,
+  ImageChannel,
+  ImageFit,
+  ImageMaskOptions,
+  loadImageFile,
+} from "../render/imageMask";
+import ParamControl from "../ParamControl";
+import PanelSection from "./PanelSection";
+
+// Whether the particles spell the text or trace a loaded image
+export type ImageSource = {
+  source: "text" | "image";
+  setSource: (source: "text" | "image") => void;
+  bitmap: ImageBitmap | null;
+  // The bitmap while it's the source, otherwise null
+  active: ImageBitmap | null;
+  options: ImageMaskOptions;
+  setOption: <K extends keyof ImageMaskOptions>(key: K, value: ImageMaskOptions[K]) => void;
+  error: string;
+  // Switches to the image once it has loaded
+  load: (file: File) => Promise<void>;
+};
+
+export function useImageSource(): ImageSource {
+  const [source, setSource] = useState<"text" | "image">("text");
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [options, setOptions] = useState<ImageMaskOptions>(DEFAULT_IMAGE_MASK_OPTIONS);
+  const [error, setError] = useState("");
+
+  const load = async (file: File) => {
+    try {
+      const next = await loadImageFile(file);
+      setBitmap(next);
+      setSource("image");
+      setError("");
+    } catch (err) {
+      setError(`Could not load "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return {
+    source,
+    setSource,
+    bitmap,
+    active: source === "image" ? bitmap : null,
+    options,
+    setOption: (key, value) => setOptions((prev) => ({ ...prev, [key]: value })),
+    error,
+    load,
+  };
+}
+
+export default function ImagePanel({ image }: { image: ImageSource }) {
+  const { options, setOption } = image;
+  return (
+    <PanelSection title="Source">
+      <div className="flex gap-2">
+        {(["text", "image"] as const).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => image.setSource(kind)}
+            disabled={kind === "image" && !image.bitmap}
+            className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors disabled:opacity-30 ${image.source === kind ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+          >
+            {kind}
+          </button>
+        ))}
+        <label className="bg-fg/10 hover:bg-fg/20 px-2 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors cursor-pointer">
+          Load
+          <input
+            type="file"
+            accept="image/png,image/jpeg,image/svg+xml,.svg"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) image.load(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      <p className="text-fg/40 text-[10px]">Drop a PNG, JPEG or SVG anywhere to use it.</p>
+      {image.error && <div className="text-[10px] text-red-300/80">{image.error}</div>}
+
+      {image.source === "image" && (
+        <>
+          <ParamControl
+            spec={IMAGE_THRESHOLD_PARAM}
+            value={options.threshold}
+            defaultValue={DEFAULT_IMAGE_MASK_OPTIONS.threshold}
+            onChange={(value) => setOption("threshold", value as number)}
+          />
+
+          <div className="flex gap-2">
+            {(["alpha", "luminance"] as ImageChannel[]).map((channel) => (
+              <button
+                key={channel}
+                onClick={() => setOption("channel", channel)}
+                className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors ${options.channel === channel ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+              >
+                {channel}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            {(["contain", "cover"] as ImageFit[]).map((fit) => (
+              <button
+                key={fit}
+                onClick={() => setOption("fit", fit)}
+                className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors ${options.fit === fit ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+              >
+                {fit === "contain" ? "Fit" : "Fill"}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center justify-between cursor-pointer">
+            <span>Invert</span>
+            <input
+              type="checkbox"
+              checked={options.invert}
+              onChange={(e) => setOption("invert", e.target.checked)}
+              className="accent-fg"
+            />
+          </label>
+
+          <label className="flex items-center justify-between cursor-pointer">
+            <span>Density From Value</span>
+            <input
+              type="checkbox"
+              checked={options.density}
+              onChange={(e) => setOption("density", e.target.checked)}
+              className="accent-fg"
+            />
+          </label>
+        </>
+      )}
+    </PanelSection>
+  );
+}
@@ -0,0 +1,32 @@
+import React from "react";
+
+type PanelSectionProps = {
+  title: string;
+  // Shows a Reset button next to the title
+  onReset?: () => void;
+  children?: React.ReactNode;
+};
+
+// A titled group of controls in the panel
+export default function PanelSection({ title, onReset, children }: PanelSectionProps) {
+  return (
+    <div className="space-y-3">
+      {onReset ? (
+        <div className="flex items-center justify-between border-b border-fg/10 pb-1">
+          <h2 className="text-fg/40 font-semibold text-[10px] uppercase tracking-wide">{title}</h2>
+          <button
+            onClick={onReset}
+            className="text-fg/40 hover:text-fg text-[10px] uppercase tracking-wide transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      ) : (
+        <h2 className="text-fg/40 font-semibold text-[10px] uppercase tracking-wide border-b border-fg/10 pb-1">
+          {title}
+        </h2>
+      )}
+      {children}
+    </div>
+  );
+}
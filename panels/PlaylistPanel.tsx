@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  createEntry,
+  formatOverrides,
+  MIN_HOLD,
+  parseOverrides,
+  Playlist,
+  PlaylistEntry,
+  stepPlaylist,
+} from "../engine/playlist";
+import { MAX_TEXT_LENGTH } from "../render/textMask";
+import PanelSection from "./PanelSection";
+
+// Playlist mode cycles through entries instead of showing the typed text
+export type PlaylistState = {
+  playlist: Playlist;
+  setPlaylist: (update: (prev: Playlist) => Playlist) => void;
+  on: boolean;
+  setOn: (on: boolean) => void;
+  playing: boolean;
+  setPlaying: (update: (prev: boolean) => boolean) => void;
+  index: number;
+  setIndex: (index: number) => void;
+  // The entry on show, or null while the playlist is off
+  activeEntry: PlaylistEntry | null;
+  // Problems with each entry's overrides, by index
+  overrideErrors: Record<number, string>;
+  step: (direction: 1 | -1) => void;
+  updateEntry: (index: number, patch: Partial<PlaylistEntry>) => void;
+  removeEntry: (index: number) => void;
+  setOverrides: (index: number, input: string) => void;
+};
+
+export function usePlaylist(): PlaylistState {
+  const [playlist, setPlaylist] = useState<Playlist>({
+    entries: [createEntry("PLURIBUS"), createEntry("E PLURIBUS\nUNUM")],
+    loop: true,
+  });
+  const [on, setOn] = useState(false);
+  const [playing, setPlaying] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [overrideErrors, setOverrideErrors] = useState<Record<number, string>>({});
+  const activeEntry = on ? playlist.entries[index] ?? null : null;
+
+  const step = (direction: 1 | -1) => {
+    const next = stepPlaylist(playlist, index, direction);
+    if (next === null) {
+      // End of a non-looping playlist: hold on the last entry
+      setPlaying(false);
+    } else {
+      setIndex(next);
+    }
+  };
+
+  // The timer only restarts when the entry changes, so it steps with
+  // whatever the playlist looks like by the time it fires
+  const stepRef = useRef(step);
+  stepRef.current = step;
+
+  // Advance once the current entry's hold time is up
+  useEffect(() => {
+    if (!activeEntry || !playing) return;
+    const timer = setTimeout(() => stepRef.current(1), Math.max(MIN_HOLD, activeEntry.hold));
+    return () => clearTimeout(timer);
+  }, [activeEntry, playing]);
+
+  const updateEntry = (at: number, patch: Partial<PlaylistEntry>) => {
+    setPlaylist((prev) => ({
+      ...prev,
+      entries: prev.entries.map((entry, i) => (i === at ? { ...entry, ...patch } : entry)),
+    }));
+  };
+
+  const removeEntry = (at: number) => {
+    setPlaylist((prev) => ({ ...prev, entries: prev.entries.filter((_, i) => i !== at) }));
+    setIndex((i) => Math.max(0, i > at ? i - 1 : Math.min(i, playlist.entries.length - 2)));
+    setOverrideErrors({});
+  };
+
+  const setOverrides = (at: number, input: string) => {
+    const { overrides, errors } = parseOverrides(input);
+    updateEntry(at, { overrides });
+    setOverrideErrors((prev) => ({ ...prev, [at]: errors.join("; ") }));
+  };
+
+  return {
+    playlist,
+    setPlaylist,
+    on,
+    setOn,
+    playing,
+    setPlaying,
+    index,
+    setIndex,
+    activeEntry,
+    overrideErrors,
+    step,
+    updateEntry,
+    removeEntry,
+    setOverrides,
+  };
+}
+
+type PlaylistPanelProps = {
+  playlist: PlaylistState;
+  // New entries start with the typed text
+  text: string;
+};
+
+export default function PlaylistPanel({ playlist: state, text }: PlaylistPanelProps) {
+  const { playlist, activeEntry } = state;
+  return (
+    <PanelSection title="Playlist">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span>Cycle Playlist</span>
+        <input
+          type="checkbox"
+          checked={state.on}
+          onChange={(e) => state.setOn(e.target.checked)}
+          className="accent-fg"
+        />
+      </label>
+
+      <label className="flex items-center justify-between cursor-pointer">
+        <span>Loop</span>
+        <input
+          type="checkbox"
+          checked={playlist.loop}
+          onChange={(e) => state.setPlaylist((prev) => ({ ...prev, loop: e.target.checked }))}
+          className="accent-fg"
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => state.step(-1)}
+          disabled={!activeEntry}
+          className="flex-1 bg-fg/10 hover:bg-fg/20 disabled:opacity-30 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          Prev
+        </button>
+        <button
+          onClick={() => state.setPlaying((p) => !p)}
+          disabled={!activeEntry}
+          className="flex-1 bg-fg/10 hover:bg-fg/20 disabled:opacity-30 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          {state.playing ? "Hold" : "Play"}
+        </button>
+        <button
+          onClick={() => state.step(1)}
+          disabled={!activeEntry}
+          className="flex-1 bg-fg/10 hover:bg-fg/20 disabled:opacity-30 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          Next
+        </button>
+      </div>
+
+      {playlist.entries.map((entry, i) => (
+        <div
+          key={i}
+          className={`space-y-1 p-2 rounded border ${state.on && i === state.index ? "border-fg/40" : "border-fg/10"}`}
+        >
+          <div className="flex gap-1">
+            <button
+              onClick={() => state.setIndex(i)}
+              className="text-fg/50 hover:text-fg w-4"
+              title="Show this entry"
+            >
+              {i + 1}
+            </button>
+            <input
+              type="text"
+              value={entry.text.replace(/\n/g, "\\n")}
+              aria-label={`Entry ${i + 1} text`}
+              onChange={(e) => state.updateEntry(i, { text: e.target.value.replace(/\\n/g, "\n").slice(0, MAX_TEXT_LENGTH) })}
+              className="flex-1 min-w-0 bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40"
+            />
+            <input
+              type="number"
+              min={MIN_HOLD / 1000}
+              step="0.5"
+              value={entry.hold / 1000}
+              aria-label={`Entry ${i + 1} hold in seconds`}
+              onChange={(e) => state.updateEntry(i, { hold: Math.max(MIN_HOLD, (Number(e.target.value) || 0) * 1000) })}
+              className="w-12 bg-fg/10 border border-fg/10 rounded px-1 py-1 focus:outline-none focus:border-fg/40"
+              title="Hold (seconds)"
+            />
+            <button
+              onClick={() => state.removeEntry(i)}
+              className="text-fg/50 hover:text-fg px-1"
+              title="Remove entry"
+            >
+              ×
+            </button>
+          </div>
+          <input
+            key={`${i}:${formatOverrides(entry.overrides)}`}
+            type="text"
+            defaultValue={formatOverrides(entry.overrides)}
+            aria-label={`Entry ${i + 1} overrides`}
+            onBlur={(e) => state.setOverrides(i, e.target.value)}
+            placeholder="overrides, e.g. waveInterval=800"
+            className="w-full bg-fg/5 border border-fg/10 rounded px-2 py-1 text-[10px] focus:outline-none focus:border-fg/40 placeholder-fg/20"
+          />
+          {state.overrideErrors[i] && <div className="text-[10px] text-red-300/80">{state.overrideErrors[i]}</div>}
+        </div>
+      ))}
+
+      <button
+        onClick={() => state.setPlaylist((prev) => ({ ...prev, entries: [...prev.entries, createEntry(text)] }))}
+        className="w-full bg-fg/10 hover:bg-fg/20 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+      >
+        Add Entry
+      </button>
+    </PanelSection>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useState } from "react";
+import {
+  BUILT_IN_PRESETS,
+  encodePresetHash,
+  loadSavedPresets,
+  parsePreset,
+  Preset,
+  PresetState,
+  savePresets,
+  serializePreset,
+} from "../render/presets";
+import { downloadBlob } from "./download";
+import PanelSection from "./PanelSection";
+
+export type PresetsState = {
+  saved: Preset[];
+  name: string;
+  setName: (name: string) => void;
+  // Outcome of the last action, shown under the buttons
+  message: string;
+  load: (preset: Preset, builtIn: boolean) => void;
+  save: () => void;
+  remove: () => void;
+  exportFile: () => void;
+  importFile: (file: File) => Promise<void>;
+  copyLink: () => Promise<void>;
+};
+
+/**
+ * Saved presets and the actions on them. `current` reads the settings a
+ * preset would capture, `apply` restores them.
+ */
+export function usePresets(current: () => PresetState, apply: (state: PresetState) => void): PresetsState {
+  const [saved, setSaved] = useState<Preset[]>(loadSavedPresets);
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState("");
+
+  const updateSaved = (next: Preset[]) => {
+    setSaved(next);
+    savePresets(next);
+  };
+
+  const load = (preset: Preset, builtIn: boolean) => {
+    apply(preset.state);
+    setName(builtIn ? "" : preset.name);
+    setMessage(`Loaded "${preset.name}"`);
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const preset: Preset = { name: trimmed, state: current() };
+    updateSaved([...saved.filter((p) => p.name !== trimmed), preset]);
+    setMessage(`Saved "${trimmed}"`);
+  };
+
+  const remove = () => {
+    const trimmed = name.trim();
+    updateSaved(saved.filter((p) => p.name !== trimmed));
+    setMessage(`Deleted "${trimmed}"`);
+  };
+
+  const exportFile = () => {
+    const fileName = name.trim() || "pluribus";
+    const blob = new Blob([serializePreset({ name: fileName, state: current() })], { type: "application/json" });
+    downloadBlob(blob, `${fileName}.pluribus.json`);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const { preset, warnings } = parsePreset(JSON.parse(await file.text()));
+      apply(preset.state);
+      updateSaved([...saved.filter((p) => p.name !== preset.name), preset]);
+      setName(preset.name);
+      setMessage(warnings.length > 0 ? `Imported with fixes: ${warnings.join("; ")}` : `Imported "${preset.name}"`);
+    } catch (err) {
+      setMessage(`Could not import: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const copyLink = async () => {
+    const url = `${location.origin}${location.pathname}${location.search}${encodePresetHash(current())}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("Link copied");
+    } catch {
+      setMessage(url);
+    }
+  };
+
+  return { saved, name, setName, message, load, save, remove, exportFile, importFile, copyLink };
+}
+
+export default function PresetsPanel({ presets }: { presets: PresetsState }) {
+  const { saved, name } = presets;
+  return (
+    <PanelSection title="Presets">
+      <select
+        value=""
+        aria-label="Load preset"
+        onChange={(e) => {
+          const [group, index] = e.target.value.split(":");
+          const preset = (group === "builtin" ? BUILT_IN_PRESETS : saved)[Number(index)];
+          if (preset) presets.load(preset, group === "builtin");
+        }}
+        className="w-full bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40"
+      >
+        <option value="" disabled className="bg-panel">Load preset…</option>
+        <optgroup label="Built-in" className="bg-panel">
+          {BUILT_IN_PRESETS.map((preset, i) => (
+            <option key={preset.name} value={`builtin:${i}`} className="bg-panel">
+              {preset.name}
+            </option>
+          ))}
+        </optgroup>
+        {saved.length > 0 && (
+          <optgroup label="Saved" className="bg-panel">
+            {saved.map((preset, i) => (
+              <option key={preset.name} value={`saved:${i}`} className="bg-panel">
+                {preset.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => presets.setName(e.target.value)}
+          placeholder="Preset name"
+          aria-label="Preset name"
+          className="flex-1 min-w-0 bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40 placeholder-fg/20"
+        />
+        <button
+          onClick={presets.save}
+          disabled={!name.trim()}
+          className="bg-fg/10 hover:bg-fg/20 disabled:opacity-30 px-2 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          Save
+        </button>
+        {saved.some((p) => p.name === name.trim()) && (
+          <button
+            onClick={presets.remove}
+            className="bg-fg/10 hover:bg-fg/20 px-2 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={presets.exportFile}
+          className="flex-1 bg-fg/10 hover:bg-fg/20 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          Export
+        </button>
+        <label className="flex-1 text-center bg-fg/10 hover:bg-fg/20 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors cursor-pointer">
+          Import
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) presets.importFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button
+          onClick={presets.copyLink}
+          className="flex-1 bg-fg/10 hover:bg-fg/20 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors"
+        >
+          Copy Link
+        </button>
+      </div>
+
+      {presets.message && <div className="text-[10px] text-fg/50 break-all">{presets.message}</div>}
+    </PanelSection>
+  );
+}
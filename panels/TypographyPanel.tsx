@@ -0,0 +1,137 @@
+import React, { useRef, useState } from "react";
+import { ParticleHost } from "../render/particleHost";
+import { familyFromFileName, FontSource } from "../render/fonts";
+import { TEXT_STYLE_PARAMS, WORD_SCALE_PARAM } from "../render/presets";
+import { DEFAULT_TEXT_STYLE, TextAlign, TextStyle } from "../render/textMask";
+import ParamControl from "../ParamControl";
+import PanelSection from "./PanelSection";
+
+const FONT_FAMILIES = ["system-ui", "sans-serif", "serif", "monospace", "Georgia", "Impact"];
+
+// Font files the user loaded
+export type CustomFonts = {
+  families: string[];
+  // Replayed into every new host and into offline renders
+  sources: { current: FontSource[] };
+  // Resolves to the family the file registers
+  load: (file: File) => Promise<string>;
+};
+
+export function useCustomFonts(getHost: () => ParticleHost | null): CustomFonts {
+  const [families, setFamilies] = useState<string[]>([]);
+  const sources = useRef<FontSource[]>([]);
+
+  const load = async (file: File) => {
+    const font: FontSource = { family: familyFromFileName(file.name), data: await file.arrayBuffer() };
+    sources.current = [...sources.current.filter((f) => f.family !== font.family), font];
+    setFamilies(sources.current.map((f) => f.family));
+    getHost()?.addFont(font);
+    return font.family;
+  };
+
+  return { families, sources, load };
+}
+
+type TypographyPanelProps = {
+  wordScale: number;
+  defaultWordScale: number;
+  onWordScaleChange: (wordScale: number) => void;
+  textStyle: TextStyle;
+  onStyleChange: <K extends keyof TextStyle>(key: K, value: TextStyle[K]) => void;
+  fonts: CustomFonts;
+};
+
+export default function TypographyPanel(props: TypographyPanelProps) {
+  const { textStyle, onStyleChange, fonts } = props;
+
+  const handleFontFile = async (file: File) => {
+    onStyleChange("fontFamily", await fonts.load(file));
+  };
+
+  return (
+    <PanelSection title="Typography">
+      <ParamControl
+        spec={WORD_SCALE_PARAM}
+        value={props.wordScale}
+        defaultValue={props.defaultWordScale}
+        onChange={(value) => props.onWordScaleChange(value as number)}
+      />
+
+      <div>
+        <div className="flex justify-between mb-1">
+          <span>Font</span>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={textStyle.fontFamily}
+            aria-label="Font"
+            onChange={(e) => onStyleChange("fontFamily", e.target.value)}
+            className="flex-1 min-w-0 bg-fg/10 border border-fg/10 rounded px-2 py-1 focus:outline-none focus:border-fg/40"
+          >
+            {[...FONT_FAMILIES, ...fonts.families].map((family) => (
+              <option key={family} value={family} className="bg-panel">
+                {family}
+              </option>
+            ))}
+          </select>
+          <label className="bg-fg/10 hover:bg-fg/20 px-2 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors cursor-pointer">
+            Load
+            <input
+              type="file"
+              accept=".ttf,.otf,.woff,.woff2"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFontFile(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {TEXT_STYLE_PARAMS.map((spec) => (
+        <React.Fragment key={spec.key}>
+          <ParamControl
+            spec={spec}
+            value={textStyle[spec.key]}
+            defaultValue={DEFAULT_TEXT_STYLE[spec.key]}
+            onChange={(value) => onStyleChange(spec.key, value as number)}
+          />
+        </React.Fragment>
+      ))}
+
+      <div className="flex gap-2">
+        {(["left", "center", "right"] as TextAlign[]).map((align) => (
+          <button
+            key={align}
+            onClick={() => onStyleChange("align", align)}
+            className={`flex-1 py-1 rounded text-[10px] uppercase font-bold tracking-wider transition-colors ${textStyle.align === align ? "bg-fg/30" : "bg-fg/10 hover:bg-fg/20"}`}
+          >
+            {align}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between cursor-pointer">
+        <span>Italic</span>
+        <input
+          type="checkbox"
+          checked={textStyle.italic}
+          onChange={(e) => onStyleChange("italic", e.target.checked)}
+          className="accent-fg"
+        />
+      </label>
+
+      <label className="flex items-center justify-between cursor-pointer">
+        <span>Uppercase</span>
+        <input
+          type="checkbox"
+          checked={textStyle.uppercase}
+          onChange={(e) => onStyleChange("uppercase", e.target.checked)}
+          className="accent-fg"
+        />
+      </label>
+    </PanelSection>
+  );
+}
@@ -0,0 +1,53 @@
+import { bandEnergies, BandEnergies } from "../engine/audio";
+
+const FFT_SIZE = 2048;
+const SMOOTHING = 0.6;
+
+export type AudioInput = {
+  // Band energies for the current moment
+  read: () => BandEnergies;
+  dispose: () => void;
+};
+
+function createAnalysis(context: AudioContext, source: AudioNode, cleanup: () => void): AudioInput {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = SMOOTHING;
+  source.connect(analyser);
+
+  const bins = new Uint8Array(analyser.frequencyBinCount);
+  const binHz = context.sampleRate / FFT_SIZE;
+
+  return {
+    read: () => {
+      analyser.getByteFrequencyData(bins);
+      return bandEnergies(bins, binHz);
+    },
+    dispose: () => {
+      source.disconnect();
+      cleanup();
+      // Closing twice rejects, and there's nothing left to do either way
+      context.close().catch(() => {});
+    },
+  };
+}
+
+/**
+ * Analyse an <audio> element while it plays through the speakers. An element
+ * can only ever be attached to one context, so pass a fresh one each time.
+ */
+export function createFileInput(audio: HTMLAudioElement): AudioInput {
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(audio);
+  // Keep it audible; the analyser only taps the signal
+  source.connect(context.destination);
+  return createAnalysis(context, source, () => audio.pause());
+}
+
+// Analyse the microphone. It isn't routed to the speakers, which would feed back.
+export async function createMicInput(): Promise<AudioInput> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  return createAnalysis(context, source, () => stream.getTracks().forEach((track) => track.stop()));
+}
@@ -0,0 +1,142 @@
+import { Simulation } from "../engine/simulation";
+import { lerp } from "../engine/math";
+import { fitScale, Viewport } from "./viewport";
+import {
+  createSprite,
+  GLOW_ALPHA,
+  GLOW_RADIUS,
+  GLYPH_BOX,
+  glyphChar,
+  glyphFont,
+  LINE_LENGTH,
+  LINE_WIDTH,
+  particleAlpha,
+  particleSprite,
+  SPRITE_SCALE,
+  TRAIL_ALPHA,
+} from "./style";
+import { ColorStyle, createColorResolver, cssColor, particleColor, RGB } from "./color";
+import { ParticleRenderer } from "./renderer";
+import { Canvas2DContext } from "./scratchCanvas";
+
+// Draw the current simulation state in `colors`. Particles live in a
+// coordinate space centered on the text, so we translate to the viewport
+// center and apply zoom. `alpha` interpolates between the previous and
+// current fixed step. `image` is the sprite for the "image" shape, which
+// falls back to circles without it.
+export function drawCanvas2D(
+  ctx: Canvas2DContext,
+  sim: Simulation,
+  view: Viewport,
+  colors: ColorStyle,
+  alpha = 1,
+  image: ImageBitmap | null = null
+) {
+  const config = sim.getConfig();
+  const zoom = sim.getZoom() * fitScale(sim, view);
+  const rgb: RGB = [1, 1, 1];
+  const sprite = createSprite();
+  const glyph = glyphChar(config.glyph);
+
+  // With motion blur the last frame only fades instead of being cleared
+  ctx.setTransform(view.pixelRatio, 0, 0, view.pixelRatio, 0, 0);
+  if (config.trailFade > 0) {
+    ctx.fillStyle = cssColor(colors.background, 1 - config.trailFade);
+  } else {
+    ctx.clearRect(0, 0, view.width, view.height);
+    ctx.fillStyle = cssColor(colors.background);
+  }
+  ctx.fillRect(0, 0, view.width, view.height);
+
+  // Field coordinates centered on the viewport; glyphs set their own
+  // transform and put this one back
+  const scale = view.pixelRatio * zoom;
+  const originX = (view.pixelRatio * view.width) / 2;
+  const originY = (view.pixelRatio * view.height) / 2;
+  ctx.setTransform(scale, 0, 0, scale, originX, originY);
+  ctx.lineCap = "round";
+  ctx.font = glyphFont();
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  // Images keep their aspect ratio inside the sprite box
+  const imageFit = image ? 1 / Math.max(image.width, image.height, 1) : 0;
+
+  const store = sim.particles;
+  const { x, y, prevX, prevY } = store;
+  for (let i = 0; i < store.count; i++) {
+    const a = particleAlpha(store, i, sim);
+    if (a <= 0) continue;
+    particleColor(store, i, colors, rgb);
+    particleSprite(store, i, config.looks, sprite);
+    const px = lerp(prevX[i], x[i], alpha);
+    const py = lerp(prevY[i], y[i], alpha);
+    const r = sprite.radius;
+
+    if (sprite.trail > r) {
+      ctx.strokeStyle = cssColor(rgb, a * TRAIL_ALPHA);
+      ctx.lineWidth = r * 2;
+      ctx.beginPath();
+      ctx.moveTo(px - sprite.dirX * sprite.trail, py - sprite.dirY * sprite.trail);
+      ctx.lineTo(px, py);
+      ctx.stroke();
+    }
+
+    // Two discs stand in for the soft falloff the WebGL halo has
+    if (sprite.glow > 0) {
+      ctx.fillStyle = cssColor(rgb, (a * sprite.glow * GLOW_ALPHA) / 2);
+      for (const reach of [GLOW_RADIUS, GLOW_RADIUS / 2]) {
+        ctx.beginPath();
+        ctx.arc(px, py, r * reach, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+
+    ctx.fillStyle = cssColor(rgb, a);
+    if (sprite.shape === "square") {
+      ctx.fillRect(px - r, py - r, r * 2, r * 2);
+    } else if (sprite.shape === "line") {
+      const len = r * LINE_LENGTH;
+      ctx.strokeStyle = ctx.fillStyle;
+      ctx.lineWidth = r * LINE_WIDTH * 2;
+      ctx.beginPath();
+      ctx.moveTo(px - sprite.dirX * len, py - sprite.dirY * len);
+      ctx.lineTo(px + sprite.dirX * len, py + sprite.dirY * len);
+      ctx.stroke();
+    } else if (sprite.shape === "glyph") {
+      const k = (scale * r * SPRITE_SCALE * 2) / GLYPH_BOX;
+      ctx.setTransform(k, 0, 0, k, originX + px * scale, originY + py * scale);
+      ctx.fillText(glyph, 0, 0);
+      ctx.setTransform(scale, 0, 0, scale, originX, originY);
+    } else if (sprite.shape === "image" && image) {
+      // Images keep their own colors, like in the WebGL renderer
+      const w = image.width * imageFit * r * SPRITE_SCALE;
+      const h = image.height * imageFit * r * SPRITE_SCALE;
+      ctx.globalAlpha = a;
+      ctx.drawImage(image, px - w, py - h, w * 2, h * 2);
+      ctx.globalAlpha = 1;
+    } else {
+      ctx.beginPath();
+      ctx.arc(px, py, r, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+export function createCanvas2DRenderer(canvas: HTMLCanvasElement | OffscreenCanvas): ParticleRenderer | null {
+  // getContext loses its overloads on the canvas union, hence the cast
+  const ctx = canvas.getContext("2d") as Canvas2DContext | null;
+  if (!ctx) return null;
+  const resolveColors = createColorResolver();
+  let image: ImageBitmap | null = null;
+
+  return {
+    kind: "canvas2d",
+    draw: (sim, view, alpha) => drawCanvas2D(ctx, sim, view, resolveColors(sim), alpha, image),
+    setSprite: (next) => {
+      image = next;
+    },
+    dispose: () => {},
+  };
+}
@@ -0,0 +1,123 @@
+import { Config } from "../engine/config";
+import { createSimulation } from "../engine/simulation";
+import { createFixedStepper } from "../engine/timestep";
+import { createTextMask, TextSpec } from "./textMask";
+import { ensureFont, FontSource, registerFont } from "./fonts";
+import { createImageMask, ImageMaskOptions } from "./imageMask";
+import { createRenderer } from "./renderer";
+import { sizeCanvas, Viewport } from "./viewport";
+import { createZip, ZipEntry } from "./zip";
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+const RECORD_BITRATE = 12_000_000;
+
+export type Recording = {
+  // Resolves with the finished video once the recorder has flushed
+  stop: () => Promise<Blob>;
+};
+
+/**
+ * Record a live canvas to WebM in real time. Returns null when the browser
+ * can't record canvases at all.
+ */
+export function startRecording(canvas: HTMLCanvasElement, fps = 60): Recording | null {
+  if (typeof MediaRecorder === "undefined" || !canvas.captureStream) return null;
+  const mimeType = WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) return null;
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: RECORD_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () =>
+      new Promise((resolve) => {
+        recorder.onstop = () => {
+          stream.getTracks().forEach((track) => track.stop());
+          resolve(new Blob(chunks, { type: "video/webm" }));
+        };
+        recorder.stop();
+      }),
+  };
+}
+
+export type OfflineRenderOptions = {
+  text: TextSpec;
+  image: ImageBitmap | null;
+  imageOptions: ImageMaskOptions;
+  // Drawn by the "image" particle shape
+  sprite: ImageBitmap | null;
+  fonts: FontSource[];
+  config: Config;
+  // Layout size in CSS pixels; the PNGs are `pixelRatio` times larger
+  view: Viewport;
+  fps: number;
+  // Seconds of animation to skip before the first frame, e.g. past the intro
+  start: number;
+  // Seconds to capture; 0 renders a single still at `start`
+  duration: number;
+  signal?: AbortSignal;
+  onProgress?: (frame: number, total: number) => void;
+};
+
+export async function canvasToPng(canvas: HTMLCanvasElement | OffscreenCanvas) {
+  if ("convertToBlob" in canvas) return canvas.convertToBlob({ type: "image/png" });
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode frame"))), "image/png")
+  );
+}
+
+/**
+ * Render the animation on a private canvas, stepping the simulation by
+ * exactly one frame at a time so the result doesn't depend on how fast this
+ * machine is. Returns a PNG for a still, or a zip of numbered PNGs.
+ */
+export async function renderOffline(options: OfflineRenderOptions): Promise<Blob> {
+  const { text, image, imageOptions, view, fps, start, duration, signal, onProgress } = options;
+  const config: Config = { ...options.config, paused: false };
+
+  // Fonts loaded into a worker host aren't known to this document
+  await Promise.all(options.fonts.map(registerFont));
+  if (!image) await ensureFont(text.style);
+
+  const mask = image
+    ? createImageMask(image, imageOptions, view.width, view.height, text.wordScale)
+    : createTextMask(text, view.width, view.height);
+  if (!mask) throw new Error("Nothing to render");
+
+  const canvas: HTMLCanvasElement | OffscreenCanvas =
+    typeof OffscreenCanvas !== "undefined" ? new OffscreenCanvas(1, 1) : document.createElement("canvas");
+  sizeCanvas(canvas, view);
+  const renderer = createRenderer(canvas, config.renderer);
+  if (!renderer) throw new Error("Could not create a renderer");
+  renderer.setSprite(options.sprite);
+
+  try {
+    const sim = createSimulation(mask, config);
+    const stepper = createFixedStepper(sim, undefined, Infinity);
+    const frameMs = 1000 / fps;
+    stepper.advance(start * 1000);
+
+    const total = Math.max(1, Math.round(duration * fps));
+    const digits = String(total).length;
+    const frames: ZipEntry[] = [];
+    for (let frame = 0; frame < total; frame++) {
+      if (signal?.aborted) throw new DOMException("Render cancelled", "AbortError");
+      if (frame > 0) stepper.advance(frameMs);
+      // The frame lands between fixed steps just like on screen
+      renderer.draw(sim, view, stepper.advance(0));
+      const png = await canvasToPng(canvas);
+      if (duration <= 0) return png;
+      const name = `frame_${String(frame).padStart(digits, "0")}.png`;
+      frames.push({ name, data: new Uint8Array(await png.arrayBuffer()) });
+      onProgress?.(frame + 1, total);
+    }
+    return createZip(frames);
+  } finally {
+    renderer.dispose();
+  }
+}
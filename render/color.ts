@@ -0,0 +1,126 @@
+import { Config } from "../engine/config";
+import { clamp } from "../engine/math";
+import { DISSOLVING, KIND_DUST, KIND_TEXT, ParticleStore } from "../engine/particles";
+import { Simulation } from "../engine/simulation";
+import { REACT_SPEED } from "./style";
+
+// r, g, b in 0..1
+export type RGB = [number, number, number];
+
+const WHITE: RGB = [1, 1, 1];
+
+// Parse #rgb or #rrggbb; anything else falls back to `fallback`.
+export function parseColor(value: string, fallback: RGB = WHITE): RGB {
+  const hex = value.trim().replace(/^#/, "");
+  const full = hex.length === 3 ? hex.replace(/./g, "$&$&") : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return fallback;
+  const n = parseInt(full, 16);
+  return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+}
+
+export function cssColor(rgb: RGB, alpha = 1) {
+  const r = Math.round(rgb[0] * 255);
+  const g = Math.round(rgb[1] * 255);
+  const b = Math.round(rgb[2] * 255);
+  return alpha >= 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+// Config colors parsed once, plus the gradient's span over the current text.
+export type ColorStyle = {
+  background: RGB;
+  mode: Config["colorMode"];
+  text: RGB;
+  gradient: RGB;
+  palette: RGB[];
+  grid: RGB;
+  dust: RGB;
+  react: Config["colorReact"];
+  reactColor: RGB;
+  dirX: number;
+  dirY: number;
+  spanMin: number;
+  spanSize: number;
+};
+
+export type ColorResolver = (sim: Simulation) => ColorStyle;
+
+// Resolves colors for a frame. Each renderer keeps its own so parsing only
+// happens when that renderer's config changes.
+export function createColorResolver(): ColorResolver {
+  let cachedConfig: Config | null = null;
+  let cachedStyle: ColorStyle | null = null;
+
+  return (sim) => {
+    const config = sim.getConfig();
+    if (config !== cachedConfig || !cachedStyle) {
+      const angle = (config.gradientAngle * Math.PI) / 180;
+      const palette = config.palette.map((c) => parseColor(c));
+      cachedConfig = config;
+      cachedStyle = {
+        background: parseColor(config.background, [0, 0, 0]),
+        mode: config.colorMode,
+        text: parseColor(config.textColor),
+        gradient: parseColor(config.gradientColor),
+        palette: palette.length > 0 ? palette : [WHITE],
+        grid: parseColor(config.gridColor),
+        dust: parseColor(config.dustColor),
+        react: config.colorReact,
+        reactColor: parseColor(config.reactColor),
+        dirX: Math.cos(angle),
+        dirY: Math.sin(angle),
+        spanMin: 0,
+        spanSize: 1,
+      };
+    }
+
+    // Project the text bounds onto the gradient direction
+    const style = cachedStyle;
+    const b = sim.getTextBounds();
+    const xs = style.dirX >= 0 ? [b.minX, b.maxX] : [b.maxX, b.minX];
+    const ys = style.dirY >= 0 ? [b.minY, b.maxY] : [b.maxY, b.minY];
+    style.spanMin = xs[0] * style.dirX + ys[0] * style.dirY;
+    style.spanSize = Math.max(1, xs[1] * style.dirX + ys[1] * style.dirY - style.spanMin);
+    return style;
+  };
+}
+
+// Write the color of particle `i` into `out`.
+export function particleColor(store: ParticleStore, i: number, style: ColorStyle, out: RGB) {
+  const kind = store.kind[i] & ~DISSOLVING;
+  let base: RGB;
+  if (kind === KIND_DUST) {
+    base = style.dust;
+  } else if (kind !== KIND_TEXT) {
+    base = style.grid;
+  } else if (style.mode === "palette") {
+    // Phase is a fixed random angle per particle
+    const k = Math.floor((store.phase[i] / (Math.PI * 2)) * style.palette.length);
+    base = style.palette[clamp(k, 0, style.palette.length - 1)];
+  } else if (style.mode === "gradient") {
+    const t = clamp(
+      (store.baseX[i] * style.dirX + store.baseY[i] * style.dirY - style.spanMin) / style.spanSize,
+      0,
+      1
+    );
+    out[0] = style.text[0] + (style.gradient[0] - style.text[0]) * t;
+    out[1] = style.text[1] + (style.gradient[1] - style.text[1]) * t;
+    out[2] = style.text[2] + (style.gradient[2] - style.text[2]) * t;
+    base = out;
+  } else {
+    base = style.text;
+  }
+
+  let amount = 0;
+  if (style.react === "wave") {
+    amount = store.wave[i];
+  } else if (style.react === "velocity") {
+    amount = clamp(Math.hypot(store.vx[i], store.vy[i]) / REACT_SPEED, 0, 1);
+  } else if (style.react === "activation") {
+    // Text starts out in the react color and settles as it is revealed
+    amount = kind === KIND_TEXT ? 1 - store.activation[i] : 0;
+  }
+
+  out[0] = base[0] + (style.reactColor[0] - base[0]) * amount;
+  out[1] = base[1] + (style.reactColor[1] - base[1]) * amount;
+  out[2] = base[2] + (style.reactColor[2] - base[2]) * amount;
+}
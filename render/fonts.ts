@@ -0,0 +1,39 @@
+import { fontString, TextStyle } from "./textMask";
+
+// A user supplied font file, registered under `family`.
+export type FontSource = {
+  family: string;
+  data: ArrayBuffer;
+};
+
+// document.fonts on the main thread, self.fonts inside a worker
+function fontSet(): FontFaceSet | null {
+  if (typeof document !== "undefined") return document.fonts;
+  const scope = self as unknown as { fonts?: FontFaceSet };
+  return scope.fonts ?? null;
+}
+
+export async function registerFont(font: FontSource) {
+  const set = fontSet();
+  if (!set || typeof FontFace === "undefined") return;
+  const face = new FontFace(font.family, font.data);
+  await face.load();
+  set.add(face);
+}
+
+// Resolve once the face used by `style` is ready, so sampling doesn't happen
+// against a fallback font. Failures fall through to whatever is available.
+export async function ensureFont(style: TextStyle) {
+  const set = fontSet();
+  if (!set) return;
+  try {
+    await set.load(fontString(style, 16));
+  } catch {
+    // Unknown family: the browser will use its fallback
+  }
+}
+
+// Font family name from a file name, e.g. "Brand-Bold.woff2" -> "Brand-Bold"
+export function familyFromFileName(name: string) {
+  return name.replace(/\.(ttf|otf|woff2?)$/i, "").trim() || "Custom Font";
+}
@@ -0,0 +1,122 @@
+import { ParamSpec } from "../engine/configSchema";
+import { Mask } from "../engine/types";
+import { createScratchContext } from "./scratchCanvas";
+
+export type ImageFit = "contain" | "cover";
+export type ImageChannel = "alpha" | "luminance";
+
+export type ImageMaskOptions = {
+  channel: ImageChannel; // what the threshold is applied to
+  threshold: number; // 0..255
+  invert: boolean;
+  fit: ImageFit; // contain within the word box, or cover the whole canvas
+  density: boolean; // sample the value as a weight instead of thresholding
+};
+
+export const DEFAULT_IMAGE_MASK_OPTIONS: ImageMaskOptions = {
+  channel: "alpha",
+  threshold: 128,
+  invert: false,
+  fit: "contain",
+  density: false,
+};
+
+// 255 would leave nothing above the threshold
+export const IMAGE_THRESHOLD_PARAM: ParamSpec<"threshold"> = {
+  key: "threshold",
+  label: "Threshold",
+  group: "Image",
+  type: "number",
+  min: 0,
+  max: 254,
+  step: 1,
+  needsRebuild: true,
+};
+
+// Vector images have no natural pixel size, so they are rasterized at this
+// size along their longest side.
+const SVG_RASTER_SIZE = 2048;
+
+/**
+ * Decode a user supplied PNG/JPEG/SVG file into an ImageBitmap, which can be
+ * cloned into a worker. SVGs go through an <img> since createImageBitmap
+ * doesn't accept SVG blobs everywhere.
+ */
+export async function loadImageFile(file: File): Promise<ImageBitmap> {
+  const isSvg = file.type === "image/svg+xml" || /\.svg$/i.test(file.name);
+  if (!isSvg) return createImageBitmap(file);
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const aspect = img.naturalWidth && img.naturalHeight ? img.naturalWidth / img.naturalHeight : 1;
+    const width = aspect >= 1 ? SVG_RASTER_SIZE : Math.round(SVG_RASTER_SIZE * aspect);
+    const height = aspect >= 1 ? Math.round(SVG_RASTER_SIZE / aspect) : SVG_RASTER_SIZE;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("No 2D context for SVG rasterization");
+    ctx.drawImage(img, 0, 0, width, height);
+    return createImageBitmap(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Draw an image onto the mask canvas and fold the chosen channel, inversion
+// and threshold into the alpha channel the engine samples. `scale` sizes the
+// contained image the same way wordScale sizes text.
+export function createImageMask(
+  image: ImageBitmap,
+  options: ImageMaskOptions,
+  width: number,
+  height: number,
+  scale: number
+): Mask | null {
+  if (width === 0 || height === 0) return null;
+
+  const offCtx = createScratchContext(width, height);
+  if (!offCtx) return null;
+
+  const fitScale =
+    options.fit === "cover"
+      ? Math.max(width / image.width, height / image.height)
+      : Math.min((width * scale) / image.width, (height * scale) / image.height);
+  const drawWidth = image.width * fitScale;
+  const drawHeight = image.height * fitScale;
+
+  offCtx.clearRect(0, 0, width, height);
+  offCtx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  const imgData = offCtx.getImageData(0, 0, width, height);
+  const data = imgData.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const a = data[i + 3];
+    let value =
+      options.channel === "alpha"
+        ? a
+        : ((0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) * a) / 255;
+    if (options.invert) value = 255 - value;
+
+    if (options.density) {
+      data[i + 3] = value > options.threshold ? value : 0;
+    } else {
+      data[i + 3] = value > options.threshold ? 255 : 0;
+    }
+  }
+
+  return {
+    width,
+    height,
+    data,
+    // One "letter" puts the default wave origin at the image center
+    letterCount: 1,
+    weighted: options.density,
+  };
+}
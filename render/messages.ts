@@ -0,0 +1,43 @@
+import { BenchmarkResult } from "../engine/benchmark";
+import { Config } from "../engine/config";
+import { Pointer } from "../engine/types";
+import { HostOptions, HostStats } from "./particleHost";
+import { RendererKind } from "./renderer";
+import { Viewport } from "./viewport";
+import { TextSpec } from "./textMask";
+import { FontSource } from "./fonts";
+import { ImageMaskOptions } from "./imageMask";
+
+// Main thread -> worker. Mirrors the ParticleHost methods one to one.
+export type HostMessage =
+  | { type: "init"; canvas: OffscreenCanvas; options: HostOptions }
+  | { type: "setText"; text: TextSpec }
+  | { type: "addFont"; font: FontSource }
+  | { type: "setImage"; image: ImageBitmap | null }
+  | { type: "setImageOptions"; options: ImageMaskOptions }
+  | { type: "setSprite"; sprite: ImageBitmap | null }
+  | { type: "setConfig"; config: Config }
+  | { type: "setPointers"; pointers: Pointer[] }
+  | { type: "triggerWave"; x: number; y: number }
+  | { type: "emitWave"; scale: number }
+  | { type: "snapshot"; id: number }
+  | { type: "outro"; id: number }
+  | { type: "benchmark"; id: number; particles: number; steps: number }
+  | { type: "resize"; view: Viewport }
+  | { type: "restart" }
+  | { type: "setVisible"; visible: boolean }
+  | { type: "dispose" };
+
+// Worker -> main thread.
+export type WorkerEvent =
+  | { type: "renderer"; kind: RendererKind }
+  | { type: "ready" }
+  | { type: "wave"; x: number; y: number; triggered: boolean }
+  | { type: "introComplete" }
+  | { type: "stats"; stats: HostStats }
+  | { type: "snapshot"; id: number; blob: Blob | null; message?: string }
+  | { type: "outro"; id: number }
+  | { type: "benchmarkProgress"; id: number; done: number; total: number }
+  | { type: "benchmark"; id: number; result: BenchmarkResult | null; message?: string }
+  // The worker can't run the field, so the host gives up on it
+  | { type: "error"; message: string };
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Config, DEFAULT_CONFIG } from "../engine/config";
+import { createParticleHost, HostOptions, ParticleHost } from "./particleHost";
+import { DEFAULT_IMAGE_MASK_OPTIONS } from "./imageMask";
+import { DEFAULT_TEXT_STYLE } from "./textMask";
+
+// Just enough of a 2D canvas for the host: every pixel is covered, so the
+// mask is solid and the field gets particles.
+function fakeCanvas(width = 0, height = 0) {
+  const canvas = {
+    width,
+    height,
+    getContext: (kind: string) => (kind === "2d" ? context : null),
+  };
+  const context: unknown = new Proxy(
+    {},
+    {
+      get: (target, key) => {
+        if (key in target) return target[key as keyof typeof target];
+        if (key === "canvas") return canvas;
+        if (key === "measureText") return () => ({ width: 50 });
+        if (key === "getImageData")
+          return (_x: number, _y: number, w: number, h: number) => ({ data: new Uint8ClampedArray(w * h * 4).fill(255) });
+        return () => undefined;
+      },
+    }
+  );
+  return canvas;
+}
+
+function options(config: Config): HostOptions {
+  return {
+    text: { text: "HI", wordScale: 1, style: DEFAULT_TEXT_STYLE },
+    image: null,
+    imageOptions: DEFAULT_IMAGE_MASK_OPTIONS,
+    sprite: null,
+    config,
+    view: { width: 160, height: 90, pixelRatio: 1 },
+  };
+}
+
+// Resolves once the host has built its first field
+function readyHost(config: Config) {
+  return new Promise<ParticleHost>((resolve) => {
+    const host = createParticleHost(fakeCanvas() as unknown as OffscreenCanvas, options(config), {
+      onReady: () => resolve(host!),
+    });
+  });
+}
+
+// Whether `promise` settles before the queued work so far runs out
+async function settlesNow(promise: Promise<unknown>) {
+  let settled = false;
+  promise.then(() => (settled = true));
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  return settled;
+}
+
+describe("createParticleHost outro", () => {
+  let host: ParticleHost | null = null;
+
+  beforeEach(() => {
+    vi.stubGlobal("OffscreenCanvas", function (width: number, height: number) {
+      return fakeCanvas(width, height);
+    });
+    // No font set to wait on
+    vi.stubGlobal("self", {});
+  });
+
+  afterEach(() => {
+    host?.dispose();
+    host = null;
+    vi.unstubAllGlobals();
+  });
+
+  it("settles right away on a paused field", async () => {
+    host = await readyHost({ ...DEFAULT_CONFIG, renderer: "canvas2d", outro: true, paused: true });
+    expect(await settlesNow(host.outro())).toBe(true);
+  });
+
+  it("settles right away with reduced motion", async () => {
+    host = await readyHost({ ...DEFAULT_CONFIG, renderer: "canvas2d", outro: true, reducedMotion: true });
+    expect(await settlesNow(host.outro())).toBe(true);
+  });
+
+  it("settles a playing outro once the field is paused", async () => {
+    const config = { ...DEFAULT_CONFIG, renderer: "canvas2d" as const, outro: true, paused: false };
+    host = await readyHost(config);
+    const playing = host.outro();
+    expect(await settlesNow(playing)).toBe(false);
+    host.setConfig({ ...config, paused: true });
+    expect(await settlesNow(playing)).toBe(true);
+  });
+});
@@ -0,0 +1,388 @@
+import { Config } from "../engine/config";
+import { needsResample } from "../engine/configSchema";
+import { BenchmarkResult, runBenchmark } from "../engine/benchmark";
+import { applyQuality, createQualityController } from "../engine/quality";
+import { createSimulation, Simulation, SimulationStats } from "../engine/simulation";
+import { createFixedStepper, FIXED_STEP_MS, FixedStepper } from "../engine/timestep";
+import { Pointer } from "../engine/types";
+import { createTextMask, sameTextSpec, TextSpec } from "./textMask";
+import { ensureFont, FontSource, registerFont } from "./fonts";
+import { createImageMask, ImageMaskOptions } from "./imageMask";
+import { createRenderer, RendererKind } from "./renderer";
+import { fitScale, sizeCanvas, toSimulationSpace, toViewportSpace, Viewport } from "./viewport";
+import { canvasToPng } from "./capture";
+
+const RESIZE_SETTLE_MS = 150;
+const STATS_INTERVAL_MS = 500;
+
+export type HostOptions = {
+  text: TextSpec;
+  // When set, the image replaces the text as the particle source
+  image: ImageBitmap | null;
+  imageOptions: ImageMaskOptions;
+  // Drawn by the "image" particle shape
+  sprite: ImageBitmap | null;
+  config: Config;
+  view: Viewport;
+};
+
+// Frame timings averaged since the last report, plus particle counts
+export type HostStats = SimulationStats & {
+  fps: number;
+  stepMs: number;
+  renderMs: number;
+  quality: number; // adaptive quality level, 0 is full quality
+};
+
+export type HostCallbacks = {
+  onRenderer?: (kind: RendererKind) => void;
+  // Fires once the first simulation is running
+  onReady?: () => void;
+  // Every new wave, emitted or triggered, at its origin in viewport CSS pixels
+  onWave?: (x: number, y: number, triggered: boolean) => void;
+  onIntroComplete?: () => void;
+  // Roughly twice a second while the field is running
+  onStats?: (stats: HostStats) => void;
+  // The host stopped working, e.g. its worker failed to load or start. Only
+  // worker hosts report this; the field won't draw again.
+  onError?: (message: string) => void;
+};
+
+// Everything the UI needs to drive a running particle field. Implemented
+// directly on the main thread here and proxied to a worker in workerHost.
+export type ParticleHost = {
+  setText: (text: TextSpec) => void;
+  addFont: (font: FontSource) => void;
+  setImage: (image: ImageBitmap | null) => void;
+  setImageOptions: (options: ImageMaskOptions) => void;
+  setSprite: (sprite: ImageBitmap | null) => void;
+  setConfig: (config: Config) => void;
+  // Every active pointer, in viewport CSS pixels. Velocities are CSS pixels
+  // per ms, measured by the caller between pointer events.
+  setPointers: (pointers: Pointer[]) => void;
+  // Spawn a wave at a point, also in viewport CSS pixels.
+  triggerWave: (x: number, y: number) => void;
+  // Emit a wave from the configured origin, e.g. on a beat.
+  emitWave: (scale: number) => void;
+  // PNG of the current frame.
+  snapshot: () => Promise<Blob>;
+  // Play the outro; resolves once the text has left.
+  outro: () => Promise<void>;
+  // Time simulation steps with the current config on the thread this host
+  // runs on.
+  benchmark: (
+    particles: number,
+    steps: number,
+    onProgress?: (done: number, total: number) => void
+  ) => Promise<BenchmarkResult>;
+  resize: (view: Viewport) => void;
+  restart: () => void;
+  setVisible: (visible: boolean) => void;
+  dispose: () => void;
+};
+
+// Workers get requestAnimationFrame in most browsers, but not all of them.
+const requestFrame: (cb: (time: number) => void) => number =
+  typeof requestAnimationFrame === "function"
+    ? (cb) => requestAnimationFrame(cb)
+    : (cb) => setTimeout(() => cb(performance.now()), FIXED_STEP_MS) as unknown as number;
+const cancelFrame: (id: number) => void =
+  typeof cancelAnimationFrame === "function"
+    ? (id) => cancelAnimationFrame(id)
+    : (id) => clearTimeout(id);
+
+/**
+ * Owns the simulation, renderer and frame loop for one canvas. It only relies
+ * on APIs available inside a worker, so the same code runs on either side of
+ * transferControlToOffscreen.
+ */
+export function createParticleHost(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  options: HostOptions,
+  callbacks: HostCallbacks = {}
+): ParticleHost | null {
+  const renderer = createRenderer(canvas, options.config.renderer);
+  if (!renderer) return null;
+  callbacks.onRenderer?.(renderer.kind);
+  renderer.setSprite(options.sprite);
+
+  let { text, image, imageOptions, config, view } = options;
+  // What the simulation actually runs with: config after adaptive quality
+  const quality = createQualityController();
+  let applied = config;
+  let sim: Simulation | null = null;
+  let stepper: FixedStepper | null = null;
+  let resizeTimer: ReturnType<typeof setTimeout> | null = null;
+  let pointers: Pointer[] = [];
+
+  sizeCanvas(canvas, view);
+
+  // Bumped on every build so a slow font load can't apply a stale mask
+  let buildToken = 0;
+  let needsRebuild = true;
+  let needsMorph = false;
+  let needsResampling = false;
+  let disposed = false;
+  // Settles the outro playing on the current simulation, if any
+  let outroPlaying: Promise<void> | null = null;
+  let finishOutro: (() => void) | null = null;
+
+  // Start over with a fresh simulation; the old one keeps drawing until the
+  // new mask is ready.
+  function rebuild() {
+    needsRebuild = true;
+    fit();
+  }
+
+  // New source mask: morph the running field onto it when enabled, or play
+  // the old text out first. The rebuild picks up whatever is current by then.
+  function changeMask() {
+    if (config.morph && sim) {
+      needsMorph = true;
+      fit();
+    } else if (config.outro && sim && !config.paused && !config.reducedMotion) {
+      outro().then(rebuild);
+    } else {
+      rebuild();
+    }
+  }
+
+  function outro() {
+    if (!sim) return Promise.resolve();
+    // A paused or motionless field would never finish playing it
+    if (config.paused || config.reducedMotion) {
+      settleOutro();
+      return Promise.resolve();
+    }
+    if (!outroPlaying) {
+      outroPlaying = new Promise<void>((resolve) => (finishOutro = resolve));
+      sim.startOutro();
+    }
+    return outroPlaying;
+  }
+
+  function settleOutro() {
+    finishOutro?.();
+    outroPlaying = null;
+    finishOutro = null;
+  }
+
+  // Create the simulation, or resize it in place when only the size changed.
+  // Failures are reported here since nothing waits on the build.
+  function fit() {
+    build().catch((err) => console.warn("Could not build the particle field:", err));
+  }
+
+  async function build() {
+    const token = ++buildToken;
+    if (!image) await ensureFont(text.style);
+    if (token !== buildToken || disposed) return;
+
+    if (view.width === 0 || view.height === 0) return;
+    const sameSize = sim && sim.width === view.width && sim.height === view.height;
+    if (!needsRebuild && !needsMorph && !needsResampling && sameSize) return;
+    const mask = image
+      ? createImageMask(image, imageOptions, view.width, view.height, text.wordScale)
+      : createTextMask(text, view.width, view.height);
+    if (!mask) return;
+
+    if (sim && !needsRebuild) {
+      if (needsMorph) sim.morphTo(mask);
+      else sim.resize(mask);
+    } else {
+      const first = !sim;
+      // A new field has no outro left to wait for
+      settleOutro();
+      sim = createSimulation(mask, applied);
+      stepper = createFixedStepper(sim);
+      if (first) callbacks.onReady?.();
+    }
+    needsRebuild = false;
+    needsMorph = false;
+    needsResampling = false;
+  }
+
+  fit();
+
+  let lastRafTime = 0;
+  let lastAlpha = 0;
+  let rafId: number | null = null;
+
+  // Timings accumulated for the next stats report
+  let statFrames = 0;
+  let statStepMs = 0;
+  let statRenderMs = 0;
+  let statStart = 0;
+
+  function draw(rafTime: number) {
+    if (lastRafTime === 0) lastRafTime = rafTime;
+    const delta = rafTime - lastRafTime;
+    lastRafTime = rafTime;
+
+    if (sim && stepper && renderer) {
+      sim.setPointers(localPointers(sim));
+      const t0 = performance.now();
+      lastAlpha = stepper.advance(delta);
+      const t1 = performance.now();
+      renderer.draw(sim, view, lastAlpha);
+      const t2 = performance.now();
+      dispatchEvents(sim);
+      trackFrame(sim, rafTime, delta, t1 - t0, t2 - t1);
+    }
+
+    rafId = requestFrame(draw);
+  }
+
+  function trackFrame(current: Simulation, now: number, delta: number, stepMs: number, renderMs: number) {
+    // The first frame after a pause has no meaningful interval
+    if (delta > 0 && config.adaptiveQuality && !config.paused) {
+      const level = quality.sample(delta, stepMs + renderMs, config.frameBudget, now);
+      if (level !== null) updateConfig();
+    }
+
+    if (!callbacks.onStats) return;
+    if (statFrames === 0) statStart = now;
+    statFrames++;
+    statStepMs += stepMs;
+    statRenderMs += renderMs;
+    const elapsed = now - statStart;
+    if (elapsed < STATS_INTERVAL_MS) return;
+    callbacks.onStats({
+      ...current.getStats(),
+      fps: ((statFrames - 1) * 1000) / elapsed,
+      stepMs: statStepMs / statFrames,
+      renderMs: statRenderMs / statFrames,
+      quality: quality.level,
+    });
+    statFrames = 0;
+    statStepMs = 0;
+    statRenderMs = 0;
+  }
+
+  // Push config through adaptive quality to the simulation, resampling when
+  // the effective sampling settings changed.
+  function updateConfig() {
+    const prev = applied;
+    applied = applyQuality(config, quality.level);
+    sim?.setConfig(applied);
+    if (!needsResample(prev, applied)) return;
+    // Sampling settings: morph onto the new sampling when enabled, otherwise
+    // reseed in place like a resize so the intro doesn't replay
+    if (config.morph && sim) {
+      needsMorph = true;
+    } else {
+      needsResampling = true;
+    }
+    fit();
+  }
+
+  function dispatchEvents(current: Simulation) {
+    for (const event of current.takeEvents()) {
+      if (event.type === "wave") {
+        const at = toViewportSpace(current, view, event.x, event.y);
+        callbacks.onWave?.(at.x, at.y, event.triggered);
+      } else if (event.type === "introComplete") {
+        callbacks.onIntroComplete?.();
+      } else {
+        settleOutro();
+      }
+    }
+  }
+
+  // Pointers arrive in viewport pixels with velocities measured between their
+  // events; both are scaled into simulation space here.
+  function localPointers(current: Simulation) {
+    const scale = fitScale(current, view) || 1;
+    return pointers.map((p) => {
+      const local = toSimulationSpace(current, view, p.x, p.y);
+      return { ...p, x: local.x, y: local.y, vx: p.vx / scale, vy: p.vy / scale };
+    });
+  }
+
+  function setVisible(visible: boolean) {
+    if (!visible) {
+      if (rafId !== null) cancelFrame(rafId);
+      rafId = null;
+    } else if (rafId === null) {
+      // Resume without trying to catch up on the time spent hidden
+      lastRafTime = 0;
+      stepper?.reset();
+      statFrames = 0;
+      rafId = requestFrame(draw);
+    }
+  }
+
+  return {
+    setText: (next) => {
+      if (sameTextSpec(next, text)) return;
+      // wordScale also sizes images
+      const scaleChanged = next.wordScale !== text.wordScale;
+      text = next;
+      if (!image || scaleChanged) changeMask();
+    },
+    setImage: (next) => {
+      if (next === image) return;
+      image = next;
+      changeMask();
+    },
+    setImageOptions: (next) => {
+      imageOptions = next;
+      if (image) changeMask();
+    },
+    addFont: (font) => {
+      registerFont(font)
+        .then(() => {
+          if (!disposed && !image) changeMask();
+        })
+        .catch((err) => console.warn(`Could not load font "${font.family}":`, err));
+    },
+    setSprite: (sprite) => renderer.setSprite(sprite),
+    setConfig: (next) => {
+      const reseed = next.seed !== config.seed;
+      config = next;
+      // A paused or motionless field never finishes its outro, so whoever
+      // waits on it (like a pending text change) goes ahead now
+      if (outroPlaying && (config.paused || config.reducedMotion)) settleOutro();
+      if (!config.adaptiveQuality && quality.level > 0) quality.reset();
+      if (reseed) {
+        applied = applyQuality(config, quality.level);
+        rebuild();
+        return;
+      }
+      updateConfig();
+    },
+    setPointers: (next) => {
+      pointers = next;
+    },
+    triggerWave: (x, y) => {
+      if (!sim) return;
+      const local = toSimulationSpace(sim, view, x, y);
+      sim.triggerWave(local.x, local.y);
+    },
+    emitWave: (scale) => sim?.emitWave(scale),
+    // Redraw first: WebGL may have cleared the buffer since the last frame
+    snapshot: () => {
+      if (sim) renderer.draw(sim, view, lastAlpha);
+      return canvasToPng(canvas);
+    },
+    // Rescale the existing field right away and only rebuild the mask once
+    // the container has stopped changing size.
+    resize: (next) => {
+      view = next;
+      sizeCanvas(canvas, view);
+      if (resizeTimer) clearTimeout(resizeTimer);
+      resizeTimer = setTimeout(fit, RESIZE_SETTLE_MS);
+    },
+    outro,
+    benchmark: (count, steps, onProgress) => runBenchmark(count, steps, config, onProgress),
+    restart: rebuild,
+    setVisible,
+    dispose: () => {
+      disposed = true;
+      setVisible(false);
+      settleOutro();
+      if (resizeTimer) clearTimeout(resizeTimer);
+      renderer.dispose();
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { createParticleHost, ParticleHost } from "./particleHost";
+import { HostMessage, WorkerEvent } from "./messages";
+
+// The DOM lib types `self` as Window; a Worker has the same message surface.
+const scope = self as unknown as Worker;
+
+let host: ParticleHost | null = null;
+
+function post(event: WorkerEvent) {
+  scope.postMessage(event);
+}
+
+scope.onmessage = (e: MessageEvent<HostMessage>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case "init":
+      try {
+        host = createParticleHost(msg.canvas, msg.options, {
+          onRenderer: (kind) => post({ type: "renderer", kind }),
+          onReady: () => post({ type: "ready" }),
+          onWave: (x, y, triggered) => post({ type: "wave", x, y, triggered }),
+          onIntroComplete: () => post({ type: "introComplete" }),
+          onStats: (stats) => post({ type: "stats", stats }),
+        });
+        if (!host) post({ type: "error", message: "No rendering context available in worker" });
+      } catch (err) {
+        post({ type: "error", message: `Worker failed to start: ${err instanceof Error ? err.message : String(err)}` });
+      }
+      break;
+    case "setText":
+      host?.setText(msg.text);
+      break;
+    case "addFont":
+      host?.addFont(msg.font);
+      break;
+    case "setImage":
+      host?.setImage(msg.image);
+      break;
+    case "setImageOptions":
+      host?.setImageOptions(msg.options);
+      break;
+    case "setSprite":
+      host?.setSprite(msg.sprite);
+      break;
+    case "setConfig":
+      host?.setConfig(msg.config);
+      break;
+    case "setPointers":
+      host?.setPointers(msg.pointers);
+      break;
+    case "triggerWave":
+      host?.triggerWave(msg.x, msg.y);
+      break;
+    case "emitWave":
+      host?.emitWave(msg.scale);
+      break;
+    case "snapshot": {
+      const { id } = msg;
+      if (!host) {
+        post({ type: "snapshot", id, blob: null, message: "Worker has no canvas" });
+        break;
+      }
+      host.snapshot().then(
+        (blob) => post({ type: "snapshot", id, blob }),
+        (err) => post({ type: "snapshot", id, blob: null, message: String(err) })
+      );
+      break;
+    }
+    case "outro": {
+      const { id } = msg;
+      (host?.outro() ?? Promise.resolve()).then(() => post({ type: "outro", id }));
+      break;
+    }
+    case "benchmark": {
+      const { id } = msg;
+      if (!host) {
+        post({ type: "benchmark", id, result: null, message: "Worker has no canvas" });
+        break;
+      }
+      const onProgress = (done: number, total: number) => post({ type: "benchmarkProgress", id, done, total });
+      host.benchmark(msg.particles, msg.steps, onProgress).then(
+        (result) => post({ type: "benchmark", id, result }),
+        (err) => post({ type: "benchmark", id, result: null, message: String(err) })
+      );
+      break;
+    }
+    case "resize":
+      host?.resize(msg.view);
+      break;
+    case "restart":
+      host?.restart();
+      break;
+    case "setVisible":
+      host?.setVisible(msg.visible);
+      break;
+    case "dispose":
+      host?.dispose();
+      host = null;
+      break;
+  }
+};
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_CONFIG } from "../engine/config";
+import {
+  decodePresetHash,
+  defaultPresetState,
+  encodePresetHash,
+  parsePreset,
+  PRESET_FORMAT,
+  PRESET_VERSION,
+  PresetState,
+  serializePreset,
+} from "./presets";
+import { DEFAULT_TEXT_STYLE } from "./textMask";
+
+const STATE: PresetState = {
+  text: "HELLO\nWORLD",
+  wordScale: 0.9,
+  textStyle: { ...DEFAULT_TEXT_STYLE, fontWeight: 400, align: "left" },
+  config: { ...DEFAULT_CONFIG, waveSpeed: 0.3, palette: ["#ff0000", "#00ff00"] },
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parsePreset", () => {
+  it("reads back what serializePreset writes", () => {
+    const { preset, warnings } = parsePreset(JSON.parse(serializePreset({ name: "Mine", state: STATE })));
+    expect(preset).toEqual({ name: "Mine", state: STATE });
+    expect(warnings).toEqual([]);
+  });
+
+  it("throws on files that aren't presets", () => {
+    expect(() => parsePreset("nope")).toThrow("Not a preset file");
+    expect(() => parsePreset({ format: "something-else", version: PRESET_VERSION })).toThrow("Not a preset file");
+    expect(() => parsePreset({ format: PRESET_FORMAT, version: PRESET_VERSION + 1 })).toThrow(/newer/);
+  });
+
+  it("falls back to defaults for unusable settings", () => {
+    const { preset, warnings } = parsePreset({
+      format: PRESET_FORMAT,
+      version: PRESET_VERSION,
+      name: "  ",
+      state: { text: 42, textStyle: { fontWeight: 5000, align: "justify" }, config: { waveSpeed: "fast" } },
+    });
+    expect(preset.name).toBe("Imported");
+    expect(preset.state.text).toBe(defaultPresetState().text);
+    expect(preset.state.textStyle).toEqual({ ...DEFAULT_TEXT_STYLE, fontWeight: 900 });
+    expect(preset.state.config).toEqual(DEFAULT_CONFIG);
+    expect(warnings.length).toBeGreaterThanOrEqual(4);
+  });
+
+  it("reports inherited text style keys as unknown instead of copying them", () => {
+    const state = JSON.parse('{"textStyle": {"__proto__": {"polluted": true}, "constructor": 1}}');
+    const { preset, warnings } = parsePreset({ format: PRESET_FORMAT, version: PRESET_VERSION, state });
+    expect(Object.getPrototypeOf(preset.state.textStyle)).toBe(Object.prototype);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(preset.state.textStyle).toEqual(DEFAULT_TEXT_STYLE);
+    expect(warnings).toEqual(['Unknown text style "__proto__"', 'Unknown text style "constructor"']);
+  });
+});
+
+describe("preset migrations", () => {
+  it("wraps a bare version 0 state", () => {
+    const { preset, warnings } = parsePreset({ text: "BARE", config: { waveSpeed: 0.2 } });
+    expect(preset.name).toBe("Imported");
+    expect(preset.state.text).toBe("BARE");
+    expect(preset.state.config.waveSpeed).toBe(0.2);
+    expect(warnings).toEqual([]);
+  });
+
+  it("keeps the old dust floor for version 1 files", () => {
+    const v1 = (ambientCount: unknown) => ({
+      format: PRESET_FORMAT,
+      version: 1,
+      name: "Old",
+      state: { config: { ambientCount } },
+    });
+    expect(parsePreset(v1(3)).preset.state.config.ambientCount).toBe(10);
+    expect(parsePreset(v1(300)).preset.state.config.ambientCount).toBe(300);
+    expect(parsePreset(v1(undefined)).preset.state.config.ambientCount).toBe(DEFAULT_CONFIG.ambientCount);
+  });
+
+  it("runs every step from version 0", () => {
+    expect(parsePreset({ config: { ambientCount: 0 } }).preset.state.config.ambientCount).toBe(10);
+  });
+});
+
+describe("decodePresetHash", () => {
+  it("reads back what encodePresetHash writes", () => {
+    expect(decodePresetHash(encodePresetHash(STATE))).toEqual(STATE);
+    expect(decodePresetHash(encodePresetHash(defaultPresetState()))).toEqual(defaultPresetState());
+  });
+
+  it("returns null without a usable preset", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(decodePresetHash("")).toBeNull();
+    expect(decodePresetHash("#other=1")).toBeNull();
+    expect(decodePresetHash("#preset=not-base64!")).toBeNull();
+    expect(warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,275 @@
+import { Config, DEFAULT_CONFIG } from "../engine/config";
+import { clampParam, ParamSpec, sanitizeConfig } from "../engine/configSchema";
+import { DEFAULT_TEXT_STYLE, TextStyle } from "./textMask";
+
+export const PRESET_FORMAT = "pluribus-preset";
+export const PRESET_VERSION = 2;
+
+const STORAGE_KEY = "pluribus.presets";
+const HASH_KEY = "preset";
+const DEFAULT_WORD_SCALE = 0.7;
+const TEXT_ALIGNS = ["left", "center", "right"];
+
+// wordScale sits next to the config rather than in it, but is tuned the same way
+export const WORD_SCALE_PARAM: ParamSpec<"wordScale"> = {
+  key: "wordScale",
+  label: "Text Size",
+  group: "Typography",
+  type: "number",
+  min: 0.1,
+  max: 1.5,
+  step: 0.05,
+  needsRebuild: true,
+};
+
+// The numeric text style fields, tuned like config fields
+export const TEXT_STYLE_PARAMS: ParamSpec<"fontWeight" | "lineHeight" | "letterSpacing">[] = [
+  { key: "fontWeight", label: "Weight", group: "Typography", type: "number", min: 100, max: 900, step: 100, needsRebuild: true },
+  { key: "lineHeight", label: "Line Height", group: "Typography", type: "number", min: 0.6, max: 2, step: 0.05, needsRebuild: true },
+  { key: "letterSpacing", label: "Letter Spacing", group: "Typography", type: "number", min: -0.2, max: 0.5, step: 0.01, unit: "em", needsRebuild: true },
+];
+
+// Everything a preset restores. Loaded fonts and images are files rather than
+// settings, so they aren't part of it.
+export type PresetState = {
+  text: string;
+  wordScale: number;
+  textStyle: TextStyle;
+  config: Config;
+};
+
+export type Preset = {
+  name: string;
+  state: PresetState;
+};
+
+// What goes into an exported file.
+type PresetFile = {
+  format: typeof PRESET_FORMAT;
+  version: number;
+  name: string;
+  state: unknown;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a file from version `n` to `n + 1`. Version 0 is a bare
+// state object without the file wrapper, as people tend to write by hand.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (data) => ({ format: PRESET_FORMAT, version: 1, name: "Imported", state: data }),
+  // Dust used to never drop below 10, whatever ambientCount said
+  1: (data) => {
+    const state = isObject(data.state) ? data.state : {};
+    const config = isObject(state.config) ? state.config : null;
+    const ambientCount = config?.ambientCount;
+    if (!config || typeof ambientCount !== "number") return { ...data, version: 2 };
+    return { ...data, version: 2, state: { ...state, config: { ...config, ambientCount: Math.max(10, ambientCount) } } };
+  },
+};
+
+export function defaultPresetState(): PresetState {
+  return { text: "PLURIBUS", wordScale: DEFAULT_WORD_SCALE, textStyle: DEFAULT_TEXT_STYLE, config: DEFAULT_CONFIG };
+}
+
+function builtIn(name: string, config: Partial<Config>, rest: Partial<Omit<PresetState, "config">> = {}): Preset {
+  const base = defaultPresetState();
+  return { name, state: { ...base, ...rest, config: { ...base.config, ...config } } };
+}
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  builtIn("Pluribus", {}),
+  builtIn("Booth Ripples", {
+    waveOrigin: "center",
+    clickWaveStrength: 3,
+    pointerMode: "swirl",
+    repulsionRadius: 30,
+    colorReact: "wave",
+    reactColor: "#38bdf8",
+  }),
+  builtIn("Sunset Gradient", {
+    background: "#0f0a1e",
+    colorMode: "gradient",
+    textColor: "#fb923c",
+    gradientColor: "#db2777",
+    gradientAngle: 30,
+    gridColor: "#f9a8d4",
+  }),
+  builtIn(
+    "Lobby Morph",
+    { morph: true, morphStrategy: "angular", colorMode: "palette", waveInterval: 2000 },
+    { text: "WELCOME" }
+  ),
+  builtIn("Paper", {
+    background: "#f5f5f4",
+    textColor: "#1c1917",
+    gridColor: "#57534e",
+    dustColor: "#57534e",
+  }),
+  builtIn("Drifting Dust", { ambientCount: 60, dustFlow: 0.02, dustWaves: 0.5 }),
+];
+
+function sanitizeTextStyle(input: unknown, warnings: string[]): TextStyle {
+  const style: TextStyle = { ...DEFAULT_TEXT_STYLE };
+  if (input === undefined) return style;
+  if (!isObject(input)) {
+    warnings.push("textStyle must be an object");
+    return style;
+  }
+  const target = style as Record<string, unknown>;
+  for (const [key, value] of Object.entries(input)) {
+    const fallback = DEFAULT_TEXT_STYLE[key as keyof TextStyle];
+    const spec = TEXT_STYLE_PARAMS.find((s) => s.key === key);
+    if (!Object.hasOwn(DEFAULT_TEXT_STYLE, key)) {
+      warnings.push(`Unknown text style "${key}"`);
+    } else if (typeof value !== typeof fallback) {
+      warnings.push(`Text style "${key}" must be a ${typeof fallback}`);
+    } else if (key === "align" && !TEXT_ALIGNS.includes(value as string)) {
+      warnings.push(`Text style "align" must be one of ${TEXT_ALIGNS.join(", ")}`);
+    } else if (spec && clampParam(spec, value as number) === null) {
+      warnings.push(`Text style "${key}" must be a finite number`);
+    } else if (spec) {
+      target[key] = clampParam(spec, value as number);
+      if (target[key] !== value) warnings.push(`Text style "${key}" clamped to ${target[key]}`);
+    } else {
+      target[key] = value;
+    }
+  }
+  return style;
+}
+
+function sanitizeState(input: unknown, warnings: string[]): PresetState {
+  if (!isObject(input)) throw new Error("Preset has no settings");
+  const base = defaultPresetState();
+
+  const text = typeof input.text === "string" ? input.text : base.text;
+  if (input.text !== undefined && typeof input.text !== "string") warnings.push("text must be a string");
+
+  let wordScale = base.wordScale;
+  if (typeof input.wordScale === "number" && Number.isFinite(input.wordScale)) {
+    wordScale = clampParam(WORD_SCALE_PARAM, input.wordScale)!;
+    if (wordScale !== input.wordScale) warnings.push(`"wordScale" clamped to ${wordScale}`);
+  } else if (input.wordScale !== undefined) {
+    warnings.push("wordScale must be a number");
+  }
+
+  const { config, errors } = sanitizeConfig(input.config ?? {});
+  warnings.push(...errors);
+
+  return { text, wordScale, textStyle: sanitizeTextStyle(input.textStyle, warnings), config };
+}
+
+/**
+ * Validate a parsed preset file, upgrading older versions first. Settings
+ * that can't be used fall back to their defaults and are listed in
+ * `warnings`; a file that isn't a preset at all throws.
+ */
+export function parsePreset(data: unknown): { preset: Preset; warnings: string[] } {
+  if (!isObject(data)) throw new Error("Not a preset file");
+
+  let file = data;
+  let version = typeof file.version === "number" ? file.version : 0;
+  if (version > PRESET_VERSION) {
+    throw new Error(`Preset version ${version} is newer than this app supports (${PRESET_VERSION})`);
+  }
+  while (version < PRESET_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Can't upgrade preset version ${version}`);
+    file = migrate(file);
+    version = file.version as number;
+  }
+  if (file.format !== PRESET_FORMAT) throw new Error("Not a preset file");
+
+  const warnings: string[] = [];
+  const name = typeof file.name === "string" && file.name.trim() ? file.name.trim() : "Imported";
+  return { preset: { name, state: sanitizeState(file.state, warnings) }, warnings };
+}
+
+export function serializePreset(preset: Preset) {
+  const file: PresetFile = {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name: preset.name,
+    state: preset.state,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function loadSavedPresets(): Preset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const list: unknown = JSON.parse(raw);
+    if (!Array.isArray(list)) return [];
+    const presets: Preset[] = [];
+    for (const item of list) {
+      try {
+        presets.push(parsePreset(item).preset);
+      } catch (err) {
+        console.warn("Skipping unreadable saved preset:", err);
+      }
+    }
+    return presets;
+  } catch (err) {
+    console.warn("Could not read saved presets:", err);
+    return [];
+  }
+}
+
+export function savePresets(presets: Preset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, `[${presets.map(serializePreset).join(",")}]`);
+  } catch (err) {
+    console.warn("Could not save presets:", err);
+  }
+}
+
+// Only keep values that differ from `base`, so shared links stay short.
+function diff<T extends object>(value: T, base: T) {
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (JSON.stringify(v) !== JSON.stringify(base[key as keyof T])) out[key] = v;
+  }
+  return out;
+}
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+// URL hash (including the leading "#") that reproduces `state`.
+export function encodePresetHash(state: PresetState) {
+  const base = defaultPresetState();
+  const compact = {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    state: {
+      ...diff({ text: state.text, wordScale: state.wordScale }, { text: base.text, wordScale: base.wordScale }),
+      textStyle: diff(state.textStyle, base.textStyle),
+      config: diff(state.config, base.config),
+    },
+  };
+  return `#${HASH_KEY}=${toBase64Url(JSON.stringify(compact))}`;
+}
+
+// Read a preset from a URL hash, or null when there isn't a usable one.
+export function decodePresetHash(hash: string): PresetState | null {
+  const value = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+  if (!value) return null;
+  try {
+    const { preset, warnings } = parsePreset(JSON.parse(fromBase64Url(value)));
+    if (warnings.length > 0) console.warn("Preset link had unusable settings:", warnings);
+    return preset.state;
+  } catch (err) {
+    console.warn("Ignoring invalid preset link:", err);
+    return null;
+  }
+}
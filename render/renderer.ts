@@ -0,0 +1,29 @@
+import { Config } from "../engine/config";
+import { Simulation } from "../engine/simulation";
+import { Viewport } from "./viewport";
+import { createCanvas2DRenderer } from "./canvas2d";
+import { createWebGLRenderer } from "./webgl";
+
+export type RendererKind = Config["renderer"];
+
+export type ParticleRenderer = {
+  readonly kind: RendererKind;
+  draw: (sim: Simulation, view: Viewport, alpha: number) => void;
+  // Image for the "image" particle shape
+  setSprite: (image: ImageBitmap | null) => void;
+  dispose: () => void;
+};
+
+// A canvas can only ever hand out one kind of context, so callers need a fresh
+// canvas element when switching backends. Falls back to Canvas2D when WebGL2
+// isn't available.
+export function createRenderer(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  preferred: RendererKind
+): ParticleRenderer | null {
+  if (preferred === "webgl") {
+    const renderer = createWebGLRenderer(canvas);
+    if (renderer) return renderer;
+  }
+  return createCanvas2DRenderer(canvas);
+}
@@ -0,0 +1,13 @@
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// A throwaway 2D context for rasterizing masks. Prefers OffscreenCanvas so it
+// also works inside a worker, where there is no document.
+export function createScratchContext(width: number, height: number): Canvas2DContext | null {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height).getContext("2d");
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext("2d");
+}
@@ -0,0 +1,76 @@
+import { Simulation } from "../engine/simulation";
+import { clamp } from "../engine/math";
+import { ParticleLooks, ParticleShape } from "../engine/looks";
+import { DISSOLVING, KIND_DUST, KIND_TEXT, ParticleStore } from "../engine/particles";
+
+// Shared look for every renderer backend so they stay visually identical.
+export const TEXT_BASE_ALPHA = 1.0;
+export const BG_BASE_ALPHA = 0.32;
+export const DUST_RADIUS_SCALE = 0.8;
+
+// Speed (px per step) at which speed reactions are at full strength
+export const REACT_SPEED = 3;
+// Halo reach as a multiple of the radius, and its opacity at full glow
+export const GLOW_RADIUS = 3;
+export const GLOW_ALPHA = 0.35;
+// Trails are drawn as wide as the particle, at this share of its opacity
+export const TRAIL_ALPHA = 0.4;
+// "line" dashes: half-length and half-width as multiples of the radius
+export const LINE_LENGTH = 2;
+export const LINE_WIDTH = 0.5;
+// Glyphs and images fill a box this many radii across each way
+export const SPRITE_SCALE = 2;
+// Glyphs are laid out in a box of this many px, at GLYPH_EM of its height
+export const GLYPH_BOX = 64;
+const GLYPH_EM = 0.8;
+
+export const glyphFont = () => `${GLYPH_BOX * GLYPH_EM}px sans-serif`;
+// First character of the configured glyph, emoji and all
+export const glyphChar = (glyph: string) => Array.from(glyph)[0] ?? "•";
+
+// How to draw one particle, filled in by particleSprite and reused
+export type ParticleSprite = {
+  shape: ParticleShape;
+  radius: number;
+  glow: number; // 0..1
+  dirX: number; // direction of travel, (1, 0) when still
+  dirY: number;
+  trail: number; // length of the streak behind the particle
+};
+
+export const createSprite = (): ParticleSprite => ({ shape: "circle", radius: 1, glow: 0, dirX: 1, dirY: 0, trail: 0 });
+
+// Opacity of particle `i`; <= 0 means skip it.
+export function particleAlpha(store: ParticleStore, i: number, sim: Simulation) {
+  // Dissolving particles keep the look of what they were while fading out
+  const kind = store.kind[i] & ~DISSOLVING;
+  if (kind === KIND_TEXT) {
+    const activation = store.activation[i];
+    return activation > 0.01 ? activation * TEXT_BASE_ALPHA * store.brightness[i] : 0;
+  }
+  // Respawned dust fades back in through its activation
+  if (kind === KIND_DUST) return sim.getConfig().dustOpacity * store.activation[i];
+  return BG_BASE_ALPHA * store.activation[i] * (1 - store.dist[i] / (sim.width * 0.8));
+}
+
+export function particleRadius(store: ParticleStore, i: number) {
+  return store.kind[i] === KIND_DUST ? store.radius[i] * DUST_RADIUS_SCALE : store.radius[i];
+}
+
+// Resolve the look of particle `i` into `out`.
+export function particleSprite(store: ParticleStore, i: number, looks: ParticleLooks, out: ParticleSprite) {
+  const kind = store.kind[i] & ~DISSOLVING;
+  const look = kind === KIND_TEXT ? looks.text : kind === KIND_DUST ? looks.dust : looks.background;
+  const vx = store.vx[i];
+  const vy = store.vy[i];
+  const speed = Math.hypot(vx, vy);
+  const reaction =
+    look.reactTo === "speed" ? clamp(speed / REACT_SPEED, 0, 1) : look.reactTo === "wave" ? store.wave[i] : 0;
+
+  out.shape = look.shape;
+  out.radius = particleRadius(store, i) * look.size * (1 + look.grow * reaction);
+  out.glow = look.glow * (look.reactTo === "none" ? 1 : reaction);
+  out.dirX = speed > 0.001 ? vx / speed : 1;
+  out.dirY = speed > 0.001 ? vy / speed : 0;
+  out.trail = look.trail * speed;
+}
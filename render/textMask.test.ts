@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TEXT_STYLE, fontString } from "./textMask";
+
+describe("fontString", () => {
+  const font = (fontFamily: string) => fontString({ ...DEFAULT_TEXT_STYLE, fontFamily }, 16);
+
+  it("leaves plain family names bare", () => {
+    expect(font("system-ui")).toBe("900 16px system-ui");
+  });
+
+  it("quotes names with spaces", () => {
+    expect(font("Brand Bold")).toBe('900 16px "Brand Bold"');
+  });
+
+  it("escapes quotes and backslashes inside the name", () => {
+    expect(font('My "Font"')).toBe('900 16px "My \\"Font\\""');
+    expect(font("Back\\slash")).toBe('900 16px "Back\\\\slash"');
+  });
+});
@@ -0,0 +1,130 @@
+import { Mask } from "../engine/types";
+import { Canvas2DContext, createScratchContext } from "./scratchCanvas";
+
+export type TextAlign = "left" | "center" | "right";
+
+export type TextStyle = {
+  fontFamily: string;
+  fontWeight: number;
+  italic: boolean;
+  lineHeight: number; // multiple of the font size
+  letterSpacing: number; // em
+  align: TextAlign;
+  uppercase: boolean;
+};
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: "system-ui",
+  fontWeight: 900,
+  italic: false,
+  lineHeight: 1.0,
+  letterSpacing: 0,
+  align: "center",
+  uppercase: true,
+};
+
+// Everything that decides what the mask looks like.
+export type TextSpec = {
+  text: string;
+  wordScale: number;
+  style: TextStyle;
+};
+
+// Longest text the inputs accept
+export const MAX_TEXT_LENGTH = 80;
+
+// Fraction of the canvas the text block may fill at wordScale 1
+const BOX_WIDTH = 1.0;
+const BOX_HEIGHT = 0.4;
+// Font size used for measuring before scaling to fit
+const MEASURE_SIZE = 100;
+
+export function sameTextSpec(a: TextSpec, b: TextSpec) {
+  if (a.text !== b.text || a.wordScale !== b.wordScale) return false;
+  for (const key of Object.keys(a.style) as (keyof TextStyle)[]) {
+    if (a.style[key] !== b.style[key]) return false;
+  }
+  return true;
+}
+
+export function fontString(style: TextStyle, size: number) {
+  // Quoted names need their quotes and backslashes escaped to stay one string
+  const family = /^[\w-]+$/.test(style.fontFamily)
+    ? style.fontFamily
+    : `"${style.fontFamily.replace(/["\\]/g, "\\$&")}"`;
+  return `${style.italic ? "italic " : ""}${style.fontWeight} ${size}px ${family}`;
+}
+
+export function textLines(spec: TextSpec) {
+  const text = spec.style.uppercase ? spec.text.toUpperCase() : spec.text;
+  const lines = text.split("\n");
+  return lines.some((line) => line.length > 0) ? lines : [" "];
+}
+
+// Width of a line including letter spacing (in px at the context's font size).
+function measureLine(ctx: Canvas2DContext, line: string, spacingPx: number) {
+  if (spacingPx === 0) return ctx.measureText(line).width;
+  let w = 0;
+  for (const ch of line) w += ctx.measureText(ch).width + spacingPx;
+  return Math.max(0, w - spacingPx);
+}
+
+function drawLine(ctx: Canvas2DContext, line: string, x: number, y: number, spacingPx: number) {
+  if (spacingPx === 0) {
+    ctx.fillText(line, x, y);
+    return;
+  }
+  for (const ch of line) {
+    ctx.fillText(ch, x, y);
+    x += ctx.measureText(ch).width + spacingPx;
+  }
+}
+
+// Rasterize text onto an offscreen canvas and hand back its pixels as a Mask.
+// The block is measured and scaled to fit the box rather than guessed from
+// the character count. Fonts must already be loaded (see fonts.ts).
+export function createTextMask(spec: TextSpec, width: number, height: number): Mask | null {
+  if (width === 0 || height === 0) return null;
+
+  const offCtx = createScratchContext(width, height);
+  if (!offCtx) return null;
+
+  const { style, wordScale } = spec;
+  const lines = textLines(spec);
+
+  offCtx.font = fontString(style, MEASURE_SIZE);
+  const spacing = style.letterSpacing * MEASURE_SIZE;
+  const lineWidths = lines.map((line) => measureLine(offCtx, line, spacing));
+  const blockWidth = Math.max(1, ...lineWidths);
+  const blockHeight = MEASURE_SIZE * (1 + (lines.length - 1) * style.lineHeight);
+
+  const scale = Math.min(
+    (width * BOX_WIDTH * wordScale) / blockWidth,
+    (height * BOX_HEIGHT * wordScale) / blockHeight
+  );
+  const size = MEASURE_SIZE * scale;
+  const spacingPx = spacing * scale;
+  const lineStep = size * style.lineHeight;
+
+  offCtx.clearRect(0, 0, width, height);
+  offCtx.fillStyle = "#fff";
+  offCtx.textAlign = "left";
+  offCtx.textBaseline = "middle";
+  offCtx.font = fontString(style, size);
+
+  const left = (width - blockWidth * scale) / 2;
+  const top = height / 2 - ((lines.length - 1) * lineStep) / 2;
+
+  lines.forEach((line, i) => {
+    const slack = (blockWidth - lineWidths[i]) * scale;
+    const offset = style.align === "left" ? 0 : style.align === "right" ? slack : slack / 2;
+    drawLine(offCtx, line, left + offset, top + i * lineStep, spacingPx);
+  });
+
+  return {
+    width,
+    height,
+    data: offCtx.getImageData(0, 0, width, height).data,
+    letterCount: Math.max(...lines.map((line) => line.length), 1),
+  };
+}
@@ -0,0 +1,48 @@
+import { Simulation } from "../engine/simulation";
+
+// CSS size of the element we render into plus the backing store ratio.
+export type Viewport = {
+  width: number;
+  height: number;
+  pixelRatio: number;
+};
+
+export function measureViewport(el: HTMLElement, maxPixelRatio: number): Viewport {
+  const rect = el.getBoundingClientRect();
+  return {
+    width: Math.floor(rect.width),
+    height: Math.floor(rect.height),
+    pixelRatio: Math.max(1, Math.min(window.devicePixelRatio || 1, maxPixelRatio)),
+  };
+}
+
+// Size the backing store only; the element itself is stretched by CSS, which
+// also keeps this usable on an OffscreenCanvas.
+export function sizeCanvas(canvas: HTMLCanvasElement | OffscreenCanvas, view: Viewport) {
+  canvas.width = Math.round(view.width * view.pixelRatio);
+  canvas.height = Math.round(view.height * view.pixelRatio);
+}
+
+// While a resize is settling the simulation still has its old size, so the
+// field is uniformly scaled to fit the new viewport until it is rebuilt.
+export function fitScale(sim: Simulation, view: Viewport) {
+  return Math.min(view.width / sim.width, view.height / sim.height);
+}
+
+// Map a point in viewport CSS pixels to simulation canvas pixels.
+export function toSimulationSpace(sim: Simulation, view: Viewport, x: number, y: number) {
+  const scale = fitScale(sim, view) || 1;
+  return {
+    x: sim.width / 2 + (x - view.width / 2) / scale,
+    y: sim.height / 2 + (y - view.height / 2) / scale,
+  };
+}
+
+// The inverse of toSimulationSpace.
+export function toViewportSpace(sim: Simulation, view: Viewport, x: number, y: number) {
+  const scale = fitScale(sim, view) || 1;
+  return {
+    x: view.width / 2 + (x - sim.width / 2) * scale,
+    y: view.height / 2 + (y - sim.height / 2) * scale,
+  };
+}
@@ -0,0 +1,407 @@
+import { lerp } from "../engine/math";
+import { ParticleShape } from "../engine/looks";
+import { fitScale } from "./viewport";
+import {
+  createSprite,
+  GLOW_ALPHA,
+  GLOW_RADIUS,
+  GLYPH_BOX,
+  glyphChar,
+  glyphFont,
+  LINE_LENGTH,
+  LINE_WIDTH,
+  particleAlpha,
+  particleSprite,
+  SPRITE_SCALE,
+  TRAIL_ALPHA,
+} from "./style";
+import { createColorResolver, particleColor, RGB } from "./color";
+import { ParticleRenderer } from "./renderer";
+import { createScratchContext } from "./scratchCanvas";
+
+// Per-instance layout: x, y, radius, alpha, r, g, b, shape, dirX, dirY,
+// halfLength, glow
+const FLOATS_PER_INSTANCE = 12;
+
+// Shape ids shared with the shaders. Circles, lines and trails are all
+// capsules; circles just have no length.
+const SHAPE_IDS: Record<ParticleShape, number> = { circle: 0, square: 1, line: 2, glyph: 3, image: 4 };
+
+const float = (n: number) => n.toFixed(3);
+
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_instance;
+layout(location = 2) in vec3 a_color;
+layout(location = 3) in vec4 a_shape;
+layout(location = 4) in float a_glow;
+
+uniform vec2 u_resolution;
+uniform float u_zoom;
+
+out vec2 v_local;
+out float v_alpha;
+out float v_radiusPx;
+out float v_halfLengthPx;
+out float v_shape;
+out float v_glow;
+out vec3 v_color;
+
+void main() {
+  float radiusPx = a_instance.z * u_zoom;
+  float halfLengthPx = a_shape.w * u_zoom;
+  // Sprites fill a larger box and halos reach further still. Pad by a pixel
+  // so the antialiased edge isn't clipped.
+  float body = a_shape.x > 2.5 ? radiusPx * ${float(SPRITE_SCALE)} : radiusPx;
+  float reach = max(body, a_glow > 0.0 ? radiusPx * ${float(GLOW_RADIUS)} : 0.0) + 1.0;
+  vec2 local = a_corner * vec2(halfLengthPx + reach, reach);
+  vec2 dir = a_shape.yz;
+  vec2 center = u_resolution * 0.5 + a_instance.xy * u_zoom;
+  vec2 pos = center + dir * local.x + vec2(-dir.y, dir.x) * local.y;
+
+  v_local = local;
+  v_alpha = a_instance.w;
+  v_radiusPx = radiusPx;
+  v_halfLengthPx = halfLengthPx;
+  v_shape = a_shape.x;
+  v_glow = a_glow;
+  v_color = a_color;
+
+  vec2 clip = pos / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+uniform sampler2D u_glyph;
+uniform sampler2D u_image;
+// Extent of the image inside its sprite box, 1 along the longer side
+uniform vec2 u_imageSize;
+
+in vec2 v_local;
+in float v_alpha;
+in float v_radiusPx;
+in float v_halfLengthPx;
+in float v_shape;
+in float v_glow;
+in vec3 v_color;
+
+out vec4 outColor;
+
+void main() {
+  int shape = int(v_shape + 0.5);
+  vec3 color = v_color;
+  float d = length(v_local);
+  float coverage;
+  if (shape == 1) {
+    coverage = clamp(v_radiusPx + 0.5 - max(abs(v_local.x), abs(v_local.y)), 0.0, 1.0);
+  } else if (shape >= 3) {
+    // The sprite box spans -1..1
+    vec2 box = v_local / (v_radiusPx * ${float(SPRITE_SCALE)});
+    if (shape == 3) {
+      coverage = all(lessThanEqual(abs(box), vec2(1.0))) ? texture(u_glyph, box * 0.5 + 0.5).a : 0.0;
+    } else {
+      // Images keep their own colors
+      vec4 texel = texture(u_image, box / u_imageSize * 0.5 + 0.5);
+      coverage = all(lessThanEqual(abs(box), u_imageSize)) ? texel.a : 0.0;
+      color = texel.rgb;
+    }
+  } else {
+    d = length(vec2(max(abs(v_local.x) - v_halfLengthPx, 0.0), v_local.y));
+    coverage = clamp(v_radiusPx + 0.5 - d, 0.0, 1.0);
+  }
+
+  float halo = v_glow * ${float(GLOW_ALPHA)} * (1.0 - smoothstep(v_radiusPx, v_radiusPx * ${float(GLOW_RADIUS)}, d));
+  float a = v_alpha * max(coverage, halo);
+  if (a <= 0.0) discard;
+  outColor = vec4(coverage >= halo ? color : v_color, a);
+}
+`;
+
+function compile(gl: WebGL2RenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.warn("WebGL shader compile failed:", gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+}
+
+function link(gl: WebGL2RenderingContext) {
+  const vs = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fs = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  if (!vs || !fs) return null;
+
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn("WebGL program link failed:", gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+}
+
+// Upload a canvas or bitmap as a clamped, linearly filtered texture.
+function uploadTexture(gl: WebGL2RenderingContext, texture: WebGLTexture | null, source: TexImageSource) {
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.bindTexture(gl.TEXTURE_2D, null);
+}
+
+/**
+ * WebGL2 backend drawing every particle as an instanced, antialiased quad.
+ * Shares the particle state and look with the Canvas2D renderer but issues a
+ * single draw call per frame. Returns null when WebGL2 isn't available.
+ */
+export function createWebGLRenderer(canvas: HTMLCanvasElement | OffscreenCanvas): ParticleRenderer | null {
+  // getContext loses its overloads on the canvas union, hence the cast
+  const gl = canvas.getContext("webgl2", {
+    alpha: false,
+    antialias: false,
+    premultipliedAlpha: false,
+  }) as WebGL2RenderingContext | null;
+  if (!gl) return null;
+
+  const program = link(gl);
+  if (!program) return null;
+
+  const uResolution = gl.getUniformLocation(program, "u_resolution");
+  const uZoom = gl.getUniformLocation(program, "u_zoom");
+  const uImageSize = gl.getUniformLocation(program, "u_imageSize");
+  gl.useProgram(program);
+  gl.uniform1i(gl.getUniformLocation(program, "u_glyph"), 0);
+  gl.uniform1i(gl.getUniformLocation(program, "u_image"), 1);
+  gl.useProgram(null);
+
+  const vao = gl.createVertexArray();
+  const cornerBuffer = gl.createBuffer();
+  const instanceBuffer = gl.createBuffer();
+  const glyphTexture = gl.createTexture();
+  const imageTexture = gl.createTexture();
+
+  gl.bindVertexArray(vao);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  const stride = FLOATS_PER_INSTANCE * 4;
+  // location, size, offset in floats
+  for (const [location, size, offset] of [[1, 4, 0], [2, 3, 4], [3, 4, 7], [4, 1, 11]]) {
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4);
+    gl.vertexAttribDivisor(location, 1);
+  }
+
+  gl.bindVertexArray(null);
+
+  // Grown on demand and reused across frames
+  let instances = new Float32Array(0);
+  let n = 0;
+  const rgb: RGB = [1, 1, 1];
+  const resolveColors = createColorResolver();
+  const sprite = createSprite();
+  const push = (
+    px: number,
+    py: number,
+    radius: number,
+    a: number,
+    color: RGB,
+    shape: number,
+    dirX: number,
+    dirY: number,
+    halfLength: number,
+    glow: number
+  ) => {
+    const o = n++ * FLOATS_PER_INSTANCE;
+    instances[o] = px;
+    instances[o + 1] = py;
+    instances[o + 2] = radius;
+    instances[o + 3] = a;
+    instances[o + 4] = color[0];
+    instances[o + 5] = color[1];
+    instances[o + 6] = color[2];
+    instances[o + 7] = shape;
+    instances[o + 8] = dirX;
+    instances[o + 9] = dirY;
+    instances[o + 10] = halfLength;
+    instances[o + 11] = glow;
+  };
+
+  // The glyph is rasterized once into a texture and redrawn when it changes
+  let glyph: string | null = null;
+  const updateGlyph = (next: string) => {
+    if (next === glyph) return;
+    glyph = next;
+    const ctx = createScratchContext(GLYPH_BOX, GLYPH_BOX);
+    if (!ctx) return;
+    ctx.font = glyphFont();
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = "#ffffff";
+    ctx.fillText(glyphChar(next), GLYPH_BOX / 2, GLYPH_BOX / 2);
+    uploadTexture(gl, glyphTexture, ctx.canvas);
+  };
+
+  // Without an image the "image" shape falls back to circles
+  let imageSize: [number, number] | null = null;
+
+  // Motion blur needs the last frame, which the canvas doesn't keep after
+  // presenting. Those frames are drawn into this buffer instead and copied
+  // over; it only exists while motion blur is on.
+  let trailBuffer: WebGLFramebuffer | null = null;
+  let trailStorage: WebGLRenderbuffer | null = null;
+  let trailWidth = 0;
+  let trailHeight = 0;
+
+  // Bind the trail buffer, (re)allocating it at the canvas size. Returns
+  // true when it's new and still needs clearing.
+  const bindTrailBuffer = () => {
+    const fresh = !trailBuffer || trailWidth !== canvas.width || trailHeight !== canvas.height;
+    if (!trailBuffer) {
+      trailBuffer = gl.createFramebuffer();
+      trailStorage = gl.createRenderbuffer();
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, trailBuffer);
+    if (fresh) {
+      trailWidth = canvas.width;
+      trailHeight = canvas.height;
+      gl.bindRenderbuffer(gl.RENDERBUFFER, trailStorage);
+      gl.renderbufferStorage(gl.RENDERBUFFER, gl.RGBA8, trailWidth, trailHeight);
+      gl.framebufferRenderbuffer(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.RENDERBUFFER, trailStorage);
+      gl.bindRenderbuffer(gl.RENDERBUFFER, null);
+    }
+    return fresh;
+  };
+
+  const releaseTrailBuffer = () => {
+    gl.deleteFramebuffer(trailBuffer);
+    gl.deleteRenderbuffer(trailStorage);
+    trailBuffer = null;
+    trailStorage = null;
+  };
+
+  return {
+    kind: "webgl",
+    draw: (sim, view, alpha) => {
+      const config = sim.getConfig();
+      const store = sim.particles;
+      // A particle plus its trail, and the fade quad
+      const needed = (store.count * 2 + 1) * FLOATS_PER_INSTANCE;
+      if (instances.length < needed) instances = new Float32Array(needed * 2);
+      updateGlyph(config.glyph);
+
+      const zoom = sim.getZoom() * fitScale(sim, view) * view.pixelRatio;
+      const colors = resolveColors(sim);
+      n = 0;
+
+      // Motion blur fades the last frame with a square covering the canvas
+      // instead of clearing it
+      const trails = config.trailFade > 0;
+      const [br, bg, bb] = colors.background;
+      gl.clearColor(br, bg, bb, 1);
+      if (trails) {
+        if (bindTrailBuffer()) gl.clear(gl.COLOR_BUFFER_BIT);
+        const cover = Math.hypot(canvas.width, canvas.height) / zoom;
+        push(0, 0, cover, 1 - config.trailFade, colors.background, SHAPE_IDS.square, 1, 0, 0, 0);
+      } else {
+        if (trailBuffer) releaseTrailBuffer();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+      }
+      gl.viewport(0, 0, canvas.width, canvas.height);
+
+      const { x, y, prevX, prevY } = store;
+      for (let i = 0; i < store.count; i++) {
+        const a = particleAlpha(store, i, sim);
+        if (a <= 0) continue;
+        particleColor(store, i, colors, rgb);
+        particleSprite(store, i, config.looks, sprite);
+        const px = lerp(prevX[i], x[i], alpha);
+        const py = lerp(prevY[i], y[i], alpha);
+        const r = sprite.radius;
+        const { dirX, dirY, trail } = sprite;
+
+        if (trail > r) {
+          const half = trail / 2;
+          push(px - dirX * half, py - dirY * half, r, a * TRAIL_ALPHA, rgb, SHAPE_IDS.line, dirX, dirY, half, 0);
+        }
+
+        let shape = sprite.shape;
+        if (shape === "image" && !imageSize) shape = "circle";
+        if (shape === "line") {
+          push(px, py, r * LINE_WIDTH, a, rgb, SHAPE_IDS.line, dirX, dirY, r * LINE_LENGTH, sprite.glow);
+        } else {
+          push(px, py, r, a, rgb, SHAPE_IDS[shape], 1, 0, 0, sprite.glow);
+        }
+      }
+
+      if (n === 0) return;
+
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+      gl.useProgram(program);
+      // Work in device pixels so the quads stay crisp on HiDPI screens
+      gl.uniform2f(uResolution, view.width * view.pixelRatio, view.height * view.pixelRatio);
+      gl.uniform1f(uZoom, zoom);
+      if (imageSize) gl.uniform2f(uImageSize, imageSize[0], imageSize[1]);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, glyphTexture);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, imageTexture);
+
+      gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, instances.subarray(0, n * FLOATS_PER_INSTANCE), gl.STREAM_DRAW);
+
+      gl.bindVertexArray(vao);
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, n);
+      gl.bindVertexArray(null);
+
+      if (trails) {
+        gl.bindFramebuffer(gl.READ_FRAMEBUFFER, trailBuffer);
+        gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+        gl.blitFramebuffer(0, 0, trailWidth, trailHeight, 0, 0, trailWidth, trailHeight, gl.COLOR_BUFFER_BIT, gl.NEAREST);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      }
+    },
+    setSprite: (image) => {
+      if (!image) {
+        imageSize = null;
+        return;
+      }
+      // Longer side spans the whole sprite box
+      const longest = Math.max(image.width, image.height, 1);
+      imageSize = [image.width / longest, image.height / longest];
+      uploadTexture(gl, imageTexture, image);
+    },
+    dispose: () => {
+      gl.deleteBuffer(cornerBuffer);
+      gl.deleteBuffer(instanceBuffer);
+      gl.deleteTexture(glyphTexture);
+      gl.deleteTexture(imageTexture);
+      releaseTrailBuffer();
+      gl.deleteVertexArray(vao);
+      gl.deleteProgram(program);
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { BenchmarkResult } from "../engine/benchmark";
+import { HostCallbacks, HostOptions, ParticleHost } from "./particleHost";
+import { HostMessage, WorkerEvent } from "./messages";
+
+export const supportsWorkerRendering = () =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  "transferControlToOffscreen" in HTMLCanvasElement.prototype;
+
+/**
+ * Runs mask generation, simulation and rendering in a worker. The canvas is
+ * handed over with transferControlToOffscreen, which can only happen once per
+ * element, so callers must remount the canvas to go back to the main thread.
+ */
+export function createWorkerHost(
+  canvas: HTMLCanvasElement,
+  options: HostOptions,
+  callbacks: HostCallbacks = {}
+): ParticleHost | null {
+  if (!supportsWorkerRendering()) return null;
+
+  const worker = new Worker(new URL("./particles.worker.ts", import.meta.url), { type: "module" });
+  const offscreen = canvas.transferControlToOffscreen();
+
+  const send = (msg: HostMessage, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+
+  // Snapshot requests waiting for the worker, by id
+  const snapshots = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+  let nextSnapshotId = 0;
+  // Outro requests, resolved when the worker reports them done
+  const outros = new Map<number, () => void>();
+  let nextOutroId = 0;
+  // Benchmarks running in the worker, with their progress callbacks
+  const benchmarks = new Map<
+    number,
+    {
+      resolve: (result: BenchmarkResult) => void;
+      reject: (err: Error) => void;
+      onProgress?: (done: number, total: number) => void;
+    }
+  >();
+  let nextBenchmarkId = 0;
+  let failed = false;
+
+  // Settle everything still waiting on the worker and let the caller know
+  const fail = (message: string) => {
+    if (failed) return;
+    failed = true;
+    rejectPending(new Error(message));
+    callbacks.onError?.(message);
+  };
+
+  const rejectPending = (err: Error) => {
+    for (const pending of snapshots.values()) pending.reject(err);
+    snapshots.clear();
+    // Nothing left to play out
+    for (const resolve of outros.values()) resolve();
+    outros.clear();
+    for (const pending of benchmarks.values()) pending.reject(err);
+    benchmarks.clear();
+  };
+
+  worker.onmessage = (e: MessageEvent<WorkerEvent>) => {
+    const event = e.data;
+    if (event.type === "renderer") {
+      callbacks.onRenderer?.(event.kind);
+    } else if (event.type === "ready") {
+      callbacks.onReady?.();
+    } else if (event.type === "wave") {
+      callbacks.onWave?.(event.x, event.y, event.triggered);
+    } else if (event.type === "introComplete") {
+      callbacks.onIntroComplete?.();
+    } else if (event.type === "stats") {
+      callbacks.onStats?.(event.stats);
+    } else if (event.type === "snapshot") {
+      const pending = snapshots.get(event.id);
+      snapshots.delete(event.id);
+      if (event.blob) pending?.resolve(event.blob);
+      else pending?.reject(new Error(event.message ?? "Snapshot failed"));
+    } else if (event.type === "outro") {
+      outros.get(event.id)?.();
+      outros.delete(event.id);
+    } else if (event.type === "benchmarkProgress") {
+      benchmarks.get(event.id)?.onProgress?.(event.done, event.total);
+    } else if (event.type === "benchmark") {
+      const pending = benchmarks.get(event.id);
+      benchmarks.delete(event.id);
+      if (event.result) pending?.resolve(event.result);
+      else pending?.reject(new Error(event.message ?? "Benchmark failed"));
+    } else if (event.type === "error") {
+      fail(event.message);
+    }
+  };
+
+  // Loading the script or anything uncaught inside the worker
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    fail(e.message || "Worker failed to load");
+  };
+
+  send({ type: "init", canvas: offscreen, options }, [offscreen]);
+
+  return {
+    setText: (text) => send({ type: "setText", text }),
+    // The buffer is copied so the caller can replay it to a later host
+    addFont: (font) => {
+      const data = font.data.slice(0);
+      send({ type: "addFont", font: { family: font.family, data } }, [data]);
+    },
+    // Cloned rather than transferred so the caller keeps a usable bitmap
+    setImage: (image) => send({ type: "setImage", image }),
+    setImageOptions: (options) => send({ type: "setImageOptions", options }),
+    setSprite: (sprite) => send({ type: "setSprite", sprite }),
+    setConfig: (config) => send({ type: "setConfig", config }),
+    setPointers: (pointers) => send({ type: "setPointers", pointers }),
+    triggerWave: (x, y) => send({ type: "triggerWave", x, y }),
+    emitWave: (scale) => send({ type: "emitWave", scale }),
+    snapshot: () =>
+      new Promise((resolve, reject) => {
+        if (failed) return reject(new Error("Worker has stopped"));
+        const id = nextSnapshotId++;
+        snapshots.set(id, { resolve, reject });
+        send({ type: "snapshot", id });
+      }),
+    outro: () =>
+      new Promise((resolve) => {
+        if (failed) return resolve();
+        const id = nextOutroId++;
+        outros.set(id, resolve);
+        send({ type: "outro", id });
+      }),
+    benchmark: (particles, steps, onProgress) =>
+      new Promise((resolve, reject) => {
+        if (failed) return reject(new Error("Worker has stopped"));
+        const id = nextBenchmarkId++;
+        benchmarks.set(id, { resolve, reject, onProgress });
+        send({ type: "benchmark", id, particles, steps });
+      }),
+    resize: (view) => send({ type: "resize", view }),
+    restart: () => send({ type: "restart" }),
+    setVisible: (visible) => send({ type: "setVisible", visible }),
+    dispose: () => {
+      send({ type: "dispose" });
+      worker.terminate();
+      rejectPending(new Error("Host was disposed"));
+    },
+  };
+}
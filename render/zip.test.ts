@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createZip } from "./zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+type ReadEntry = { name: string; crc: number; data: Uint8Array };
+
+// Follow the end record to the central directory and each entry's local
+// header, checking the two agree along the way
+async function readZip(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let at = view.getUint32(end + 16, true);
+  expect(at + centralSize).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const local = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 8, true)).toBe(0); // stored, not deflated
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    expect(view.getUint32(local + 18, true)).toBe(size);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries.push({ name, crc, data: bytes.slice(start, start + size) });
+    at += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe("createZip", () => {
+  it("stores each file with its name and contents", async () => {
+    const files = [
+      { name: "frame-0001.png", data: encoder.encode("first") },
+      { name: "frame-0002.png", data: new Uint8Array([0, 255, 1, 254]) },
+      { name: "empty.txt", data: new Uint8Array(0) },
+    ];
+    const blob = createZip(files);
+    expect(blob.type).toBe("application/zip");
+
+    const entries = await readZip(blob);
+    expect(entries.map((e) => e.name)).toEqual(files.map((f) => f.name));
+    entries.forEach((entry, i) => expect(entry.data).toEqual(files[i].data));
+  });
+
+  it("writes standard CRC-32 checksums", async () => {
+    const [entry] = await readZip(createZip([{ name: "check.txt", data: encoder.encode("123456789") }]));
+    expect(entry.crc).toBe(0xcbf43926);
+  });
+
+  it("writes a valid archive with no files", async () => {
+    const blob = createZip([]);
+    expect(blob.size).toBe(22);
+    expect(await readZip(blob)).toEqual([]);
+  });
+});